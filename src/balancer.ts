@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+import chalk from 'chalk';
+import { ClaudeRequest, LoadBalancingConfig, LoadBalancingStrategy, TokenCountRequest } from './types';
+import { isBackendFailure } from './errors';
+
+const DEFAULT_MAX_FAILURES = 3;
+const DEFAULT_EJECTION_TIME_MS = 30 * 1000;
+
+interface EndpointState {
+  url: string;
+  outstanding: number;
+  consecutiveFailures: number;
+  // Set while the endpoint is ejected after repeated failures
+  ejectedUntil?: number;
+  // Failed its last health check
+  down: boolean;
+}
+
+export interface EndpointStats {
+  url: string;
+  outstanding: number;
+  ejected: boolean;
+}
+
+// One request's hold on an endpoint; release it with the request's outcome
+export interface EndpointLease {
+  url: string;
+  release(error?: unknown): void;
+}
+
+// Sticky keys by request, so retries and fallbacks of one request reuse its key
+const stickyKeys = new WeakMap<ClaudeRequest | TokenCountRequest, string>();
+
+// Conversation identity for sticky balancing: the caller's user id, else the
+// first user message, which stays the same for every turn of a conversation.
+// Hashed once so scoring each endpoint does not rehash a long first message.
+function getStickyKey(request: ClaudeRequest | TokenCountRequest): string {
+  const cached = stickyKeys.get(request);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let identity = '';
+  if ('metadata' in request && request.metadata?.user_id) {
+    identity = request.metadata.user_id;
+  } else {
+    const firstUser = request.messages.find(msg => msg.role === 'user');
+    identity = firstUser ? JSON.stringify(firstUser.content) : '';
+  }
+  const key = createHash('sha256').update(identity).digest('hex');
+  stickyKeys.set(request, key);
+  return key;
+}
+
+// Spreads requests over the instances of one backend. Endpoints that fail
+// (connection refused, 5xx, timeouts) maxFailures times in a row are ejected
+// for ejectionTime, then given another chance.
+export class EndpointPool {
+  private endpoints: EndpointState[];
+  private strategy: LoadBalancingStrategy;
+  private maxFailures: number;
+  private ejectionTime: number;
+  private next = 0;
+
+  constructor(urls: string[], config: LoadBalancingConfig = {}) {
+    this.endpoints = urls.map(url => ({ url, outstanding: 0, consecutiveFailures: 0, down: false }));
+    this.strategy = config.strategy || 'round-robin';
+    this.maxFailures = config.maxFailures ?? DEFAULT_MAX_FAILURES;
+    this.ejectionTime = config.ejectionTime ?? DEFAULT_EJECTION_TIME_MS;
+  }
+
+  get urls(): string[] {
+    return this.endpoints.map(endpoint => endpoint.url);
+  }
+
+  getStats(): EndpointStats[] {
+    const now = Date.now();
+    return this.endpoints.map(e => ({
+      url: e.url,
+      outstanding: e.outstanding,
+      ejected: e.ejectedUntil !== undefined && e.ejectedUntil > now,
+    }));
+  }
+
+  // Record an active health check result; endpoints that are down are skipped
+  // while any other endpoint is available
+  setDown(url: string, down: boolean): void {
+    const endpoint = this.endpoints.find(e => e.url === url);
+    if (endpoint) {
+      endpoint.down = down;
+    }
+  }
+
+  acquire(request?: ClaudeRequest | TokenCountRequest): EndpointLease {
+    const stickyKey = this.strategy === 'sticky' && request && this.endpoints.length > 1
+      ? getStickyKey(request)
+      : undefined;
+    const endpoint = this.pick(stickyKey);
+    endpoint.outstanding++;
+
+    let released = false;
+    return {
+      url: endpoint.url,
+      release: (error?: unknown) => {
+        if (released) return;
+        released = true;
+        endpoint.outstanding--;
+        this.report(endpoint, error);
+      },
+    };
+  }
+
+  private pick(stickyKey?: string): EndpointState {
+    if (this.endpoints.length === 1) {
+      return this.endpoints[0];
+    }
+
+    const now = Date.now();
+    let available = this.endpoints.filter(e => !e.down && (e.ejectedUntil === undefined || e.ejectedUntil <= now));
+    if (available.length === 0) {
+      available = this.endpoints.filter(e => e.ejectedUntil === undefined || e.ejectedUntil <= now);
+    }
+    if (available.length === 0) {
+      // Everything is ejected: try the one that has been out the longest
+      available = [this.endpoints.reduce((a, b) => (a.ejectedUntil! <= b.ejectedUntil! ? a : b))];
+    }
+
+    if (stickyKey !== undefined) {
+      // Rendezvous hashing: a conversation keeps its endpoint (and its KV
+      // cache) while that endpoint is up, and only its own conversations move
+      // when one is ejected
+      const scored = available.map(e => ({
+        endpoint: e,
+        score: createHash('sha256').update(`${e.url}\0${stickyKey}`).digest().readUInt32BE(0),
+      }));
+      return scored.reduce((a, b) => (b.score > a.score ? b : a)).endpoint;
+    }
+
+    if (this.strategy === 'least-outstanding') {
+      const fewest = Math.min(...available.map(e => e.outstanding));
+      available = available.filter(e => e.outstanding === fewest);
+    }
+
+    // Round-robin, also used to break least-outstanding ties
+    const endpoint = available[this.next % available.length];
+    this.next = (this.next + 1) % Number.MAX_SAFE_INTEGER;
+    return endpoint;
+  }
+
+  private report(endpoint: EndpointState, error: unknown): void {
+    // A cancelled request says nothing about the endpoint
+    if (error instanceof Error && error.name === 'AbortError') {
+      return;
+    }
+    if (error === undefined || !isBackendFailure(error)) {
+      if (endpoint.ejectedUntil !== undefined) {
+        console.log(chalk.green(`  Endpoint ${endpoint.url} is back`));
+      }
+      endpoint.consecutiveFailures = 0;
+      endpoint.ejectedUntil = undefined;
+      return;
+    }
+
+    endpoint.consecutiveFailures++;
+    if (this.endpoints.length > 1 && endpoint.consecutiveFailures >= this.maxFailures) {
+      endpoint.ejectedUntil = Date.now() + this.ejectionTime;
+      console.log(
+        chalk.yellow(`  Ejecting endpoint ${endpoint.url} for ${this.ejectionTime / 1000}s`),
+        chalk.gray(`(${endpoint.consecutiveFailures} consecutive failures)`)
+      );
+    }
+  }
+}
@@ -0,0 +1,406 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import {
+  Config,
+  BatchCreateRequest,
+  BatchRequest,
+  BatchResponse,
+  BatchListResponse,
+  BatchResult,
+  BatchResultOutcome,
+} from './types';
+import { ProviderRegistry } from './providers';
+import { loadDocumentSources } from './documents';
+import { FileStore } from './files';
+import { validateMessagesRequest } from './validation';
+import { createRequestContext, resolveRoute, runOnEndpoint, runWithFallback } from './dispatch';
+import { invalidRequestError, notFoundError, toAnthropicError } from './errors';
+
+const DEFAULT_BATCH_DIR = path.join('.sona-router', 'batches');
+// Anthropic expires unfinished batch requests after 24 hours
+const BATCH_LIFETIME_MS = 24 * 60 * 60 * 1000;
+const EXPIRY_CHECK_INTERVAL_MS = 60 * 1000;
+const MAX_BATCH_REQUESTS = 100000;
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 1000;
+
+// Batch metadata as stored on disk. results_url depends on the host the
+// client used, so it is only added when the batch is returned.
+type BatchState = Omit<BatchResponse, 'results_url'>;
+
+interface QueuedRequest {
+  batchId: string;
+  request: BatchRequest;
+}
+
+export interface BatchListOptions {
+  limit?: number;
+  beforeId?: string;
+  afterId?: string;
+}
+
+// Runs Message Batches against the local backends. Each batch is kept as
+// <id>.json (metadata), <id>.requests.jsonl and <id>.results.jsonl, so a
+// restart re-queues whatever has no result line yet.
+export class BatchQueue {
+  private config: Config;
+  private providers: ProviderRegistry;
+  private files: FileStore;
+  private dir: string;
+  private concurrency: number;
+  private batches = new Map<string, BatchState>();
+  private queue: QueuedRequest[] = [];
+  // Requests currently at a backend, by batch, so cancel can abort them
+  private inFlight = new Map<string, Set<AbortController>>();
+  private running = 0;
+
+  constructor(config: Config, providers: ProviderRegistry, files: FileStore) {
+    this.config = config;
+    this.providers = providers;
+    this.files = files;
+    this.dir = path.resolve(config.batches?.dir || DEFAULT_BATCH_DIR);
+    this.concurrency = Math.max(config.batches?.concurrency || 1, 1);
+  }
+
+  // Load persisted batches and resume any that were still running
+  start(): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      let batch: BatchState;
+      try {
+        batch = JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf-8')) as BatchState;
+      } catch (error) {
+        console.log(chalk.yellow('Skipping unreadable batch file:'), chalk.white(file), chalk.gray((error as Error).message));
+        continue;
+      }
+      this.batches.set(batch.id, batch);
+      if (batch.processing_status !== 'ended') {
+        this.resume(batch);
+      }
+    }
+
+    setInterval(() => this.expireDueBatches(), EXPIRY_CHECK_INTERVAL_MS).unref();
+    this.pump();
+  }
+
+  create(body: BatchCreateRequest): BatchState {
+    const requests = this.validateRequests(body);
+    const now = new Date();
+    const batch: BatchState = {
+      id: `msgbatch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      type: 'message_batch',
+      processing_status: 'in_progress',
+      request_counts: {
+        processing: requests.length,
+        succeeded: 0,
+        errored: 0,
+        canceled: 0,
+        expired: 0,
+      },
+      ended_at: null,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + BATCH_LIFETIME_MS).toISOString(),
+      cancel_initiated_at: null,
+      archived_at: null,
+    };
+
+    fs.writeFileSync(this.getFilePath(batch.id, '.requests.jsonl'), requests.map(r => JSON.stringify(r) + '\n').join(''));
+    fs.writeFileSync(this.getFilePath(batch.id, '.results.jsonl'), '');
+    this.batches.set(batch.id, batch);
+    this.save(batch);
+
+    console.log(chalk.blue('Batch created:'), chalk.white(batch.id), chalk.gray(`(${requests.length} requests)`));
+
+    for (const request of requests) {
+      this.queue.push({ batchId: batch.id, request });
+    }
+    this.pump();
+    return batch;
+  }
+
+  get(id: string): BatchState {
+    const batch = this.batches.get(id);
+    if (!batch) {
+      throw notFoundError(`Message batch not found: ${id}`);
+    }
+    return batch;
+  }
+
+  // Most recent first, with Anthropic's before_id/after_id cursors
+  list(options: BatchListOptions = {}): { batches: BatchState[]; hasMore: boolean } {
+    const limit = Math.min(Math.max(options.limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    const all = [...this.batches.values()].sort((a, b) =>
+      b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id)
+    );
+
+    if (options.beforeId) {
+      const end = all.findIndex(b => b.id === options.beforeId);
+      if (end === -1) throw notFoundError(`Message batch not found: ${options.beforeId}`);
+      const start = Math.max(end - limit, 0);
+      return { batches: all.slice(start, end), hasMore: start > 0 };
+    }
+
+    let start = 0;
+    if (options.afterId) {
+      start = all.findIndex(b => b.id === options.afterId) + 1;
+      if (start === 0) throw notFoundError(`Message batch not found: ${options.afterId}`);
+    }
+    return { batches: all.slice(start, start + limit), hasMore: start + limit < all.length };
+  }
+
+  // Queued requests are canceled straight away; requests already at a
+  // backend are aborted so the GPU is freed for other work
+  cancel(id: string): BatchState {
+    const batch = this.get(id);
+    if (batch.processing_status !== 'in_progress') {
+      return batch;
+    }
+
+    batch.processing_status = 'canceling';
+    batch.cancel_initiated_at = new Date().toISOString();
+    this.settleQueued(batch, { type: 'canceled' });
+    for (const controller of this.inFlight.get(id) || []) {
+      controller.abort();
+    }
+
+    console.log(chalk.yellow('Batch canceling:'), chalk.white(id));
+    this.finishIfDone(batch);
+    return batch;
+  }
+
+  delete(id: string): { id: string; type: 'message_batch_deleted' } {
+    const batch = this.get(id);
+    if (batch.processing_status !== 'ended') {
+      throw invalidRequestError(`Message batch ${id} is still processing; cancel it before deleting`);
+    }
+
+    for (const suffix of ['.json', '.requests.jsonl', '.results.jsonl']) {
+      fs.rmSync(this.getFilePath(id, suffix), { force: true });
+    }
+    this.batches.delete(id);
+    return { id, type: 'message_batch_deleted' };
+  }
+
+  getResultsPath(id: string): string {
+    const batch = this.get(id);
+    if (batch.processing_status !== 'ended') {
+      throw invalidRequestError(`Message batch ${id} has not finished processing`);
+    }
+    return this.getFilePath(id, '.results.jsonl');
+  }
+
+  toResponse(batch: BatchState, baseUrl: string): BatchResponse {
+    return {
+      ...batch,
+      results_url: batch.processing_status === 'ended'
+        ? `${baseUrl}/v1/messages/batches/${batch.id}/results`
+        : null,
+    };
+  }
+
+  toListResponse(result: { batches: BatchState[]; hasMore: boolean }, baseUrl: string): BatchListResponse {
+    const data = result.batches.map(batch => this.toResponse(batch, baseUrl));
+    return {
+      data,
+      has_more: result.hasMore,
+      first_id: data.length > 0 ? data[0].id : null,
+      last_id: data.length > 0 ? data[data.length - 1].id : null,
+    };
+  }
+
+  private validateRequests(body: BatchCreateRequest): BatchRequest[] {
+    const requests = body?.requests;
+    if (!Array.isArray(requests) || requests.length === 0) {
+      throw invalidRequestError('requests: must be a non-empty array');
+    }
+    if (requests.length > MAX_BATCH_REQUESTS) {
+      throw invalidRequestError(`requests: a batch can contain at most ${MAX_BATCH_REQUESTS} requests`);
+    }
+
+    const seen = new Set<string>();
+    requests.forEach((request, i) => {
+      if (typeof request?.custom_id !== 'string' || request.custom_id.length === 0) {
+        throw invalidRequestError(`requests.${i}.custom_id: must be a non-empty string`);
+      }
+      if (seen.has(request.custom_id)) {
+        throw invalidRequestError(`requests.${i}.custom_id: duplicate custom_id "${request.custom_id}"`);
+      }
+      seen.add(request.custom_id);
+      validateMessagesRequest(request.params, this.config.validation, `requests.${i}.params`);
+    });
+    return requests;
+  }
+
+  // Re-queue requests that had no result when the router stopped
+  private resume(batch: BatchState): void {
+    const done = new Set(this.readJsonl<BatchResult>(batch.id, '.results.jsonl').map(r => r.custom_id));
+    const remaining = this.readJsonl<BatchRequest>(batch.id, '.requests.jsonl').filter(r => !done.has(r.custom_id));
+
+    if (batch.processing_status === 'canceling') {
+      for (const request of remaining) {
+        this.record(batch, request.custom_id, { type: 'canceled' });
+      }
+      this.finishIfDone(batch);
+      return;
+    }
+
+    console.log(chalk.blue('Resuming batch:'), chalk.white(batch.id), chalk.gray(`(${remaining.length} remaining)`));
+    for (const request of remaining) {
+      this.queue.push({ batchId: batch.id, request });
+    }
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const item = this.queue.shift()!;
+      const batch = this.batches.get(item.batchId);
+      if (!batch || batch.processing_status !== 'in_progress') continue;
+
+      if (this.isExpired(batch)) {
+        this.expire(batch);
+        this.record(batch, item.request.custom_id, { type: 'expired' });
+        this.finishIfDone(batch);
+        continue;
+      }
+
+      this.running++;
+      this.run(batch, item.request).catch(error => {
+        console.log(chalk.red('Failed to record batch result:'), chalk.white(`${batch.id}/${item.request.custom_id}`), chalk.gray(error.message));
+      }).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async run(batch: BatchState, item: BatchRequest): Promise<void> {
+    const controller = new AbortController();
+    const inFlight = this.inFlight.get(batch.id) || new Set<AbortController>();
+    inFlight.add(controller);
+    this.inFlight.set(batch.id, inFlight);
+
+    let outcome: BatchResultOutcome;
+    try {
+      const request = this.files.resolveFileReferences(
+        await loadDocumentSources({ ...item.params, stream: false }, this.config.documents, controller.signal)
+      );
+      const route = resolveRoute(this.config, request);
+      const message = await runWithFallback(this.config, request, route, target => {
+        const provider = this.providers.get(target.provider)!;
+        return runOnEndpoint(provider, request, endpoint => {
+          const ctx = createRequestContext(this.config, target, {
+            requestId: `${batch.id}/${item.custom_id}`,
+            signal: controller.signal,
+            endpoint,
+          });
+          return provider.complete(request, ctx);
+        });
+      }, { canRetry: () => !controller.signal.aborted, signal: controller.signal });
+      outcome = { type: 'succeeded', message };
+    } catch (error) {
+      outcome = controller.signal.aborted
+        ? { type: 'canceled' }
+        : { type: 'errored', error: toAnthropicError(error).toJSON() };
+    } finally {
+      inFlight.delete(controller);
+      if (inFlight.size === 0) this.inFlight.delete(batch.id);
+    }
+
+    this.record(batch, item.custom_id, outcome);
+    this.finishIfDone(batch);
+  }
+
+  private isExpired(batch: BatchState): boolean {
+    return Date.now() >= Date.parse(batch.expires_at);
+  }
+
+  // Anything not yet sent to a backend expires; in-flight requests finish
+  private expire(batch: BatchState): void {
+    this.settleQueued(batch, { type: 'expired' });
+  }
+
+  private expireDueBatches(): void {
+    for (const batch of this.batches.values()) {
+      if (batch.processing_status === 'in_progress' && this.isExpired(batch)) {
+        this.expire(batch);
+        this.finishIfDone(batch);
+      }
+    }
+  }
+
+  // Take a batch's queued requests off the queue with a final outcome
+  private settleQueued(batch: BatchState, outcome: BatchResultOutcome): void {
+    const settled = this.queue.filter(item => item.batchId === batch.id);
+    this.queue = this.queue.filter(item => item.batchId !== batch.id);
+    for (const item of settled) {
+      this.record(batch, item.request.custom_id, outcome);
+    }
+  }
+
+  private record(batch: BatchState, customId: string, outcome: BatchResultOutcome): void {
+    const result: BatchResult = { custom_id: customId, result: outcome };
+    fs.appendFileSync(this.getFilePath(batch.id, '.results.jsonl'), JSON.stringify(result) + '\n');
+    batch.request_counts.processing--;
+    batch.request_counts[outcome.type]++;
+    this.save(batch);
+  }
+
+  private finishIfDone(batch: BatchState): void {
+    if (batch.processing_status === 'ended' || batch.request_counts.processing > 0) {
+      return;
+    }
+
+    batch.processing_status = 'ended';
+    batch.ended_at = new Date().toISOString();
+    this.save(batch);
+
+    const counts = batch.request_counts;
+    console.log(
+      chalk.blue('Batch ended:'),
+      chalk.white(batch.id),
+      chalk.gray(`(succeeded: ${counts.succeeded}, errored: ${counts.errored}, canceled: ${counts.canceled}, expired: ${counts.expired})`)
+    );
+  }
+
+  // Written to a temporary file and renamed, so a crash mid-write never
+  // leaves a truncated <id>.json behind
+  private save(batch: BatchState): void {
+    const filePath = this.getFilePath(batch.id, '.json');
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(batch, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  }
+
+  // A line without its newline was cut off by a crash mid-append; it is
+  // dropped from the file so the next append starts on a fresh line.
+  // Lines that fail to parse are skipped.
+  private readJsonl<T>(id: string, suffix: string): T[] {
+    const filePath = this.getFilePath(id, suffix);
+    if (!fs.existsSync(filePath)) return [];
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+    if (complete.length < content.length) {
+      console.log(chalk.yellow('Dropping partial line from'), chalk.white(path.basename(filePath)));
+      fs.truncateSync(filePath, Buffer.byteLength(complete));
+    }
+
+    const items: T[] = [];
+    for (const line of complete.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        items.push(JSON.parse(line) as T);
+      } catch {
+        console.log(chalk.yellow('Skipping unreadable line in'), chalk.white(path.basename(filePath)));
+      }
+    }
+    return items;
+  }
+
+  private getFilePath(id: string, suffix: string): string {
+    return path.join(this.dir, `${id}${suffix}`);
+  }
+}
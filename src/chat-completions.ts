@@ -0,0 +1,407 @@
+import { Response } from 'express';
+import {
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  ClaudeContentBlock,
+  ClaudeImageBlock,
+  ClaudeMessage,
+  ClaudeRequest,
+  ClaudeResponse,
+  ClaudeTextBlock,
+  ClaudeThinkingBlock,
+  ClaudeToolChoice,
+  ClaudeToolUseBlock,
+  ClaudeUsage,
+  OpenAIContentPart,
+  OpenAIImagePart,
+  OpenAIResponse,
+  OpenAIUsage,
+  SseSink,
+} from './types';
+import { invalidRequestError, toAnthropicError } from './errors';
+import { rewriteMessageStream } from './message-stream';
+
+// OpenAI makes max_tokens optional; the Messages API does not
+const DEFAULT_MAX_TOKENS = 4096;
+
+// reasoning_effort as a thinking budget, in the ranges mapThinkingBudget maps back
+const THINKING_BUDGETS = { low: 2048, medium: 8192, high: 16384 };
+
+// Anthropic's 529 overloaded status has no OpenAI equivalent; OpenAI SDKs
+// retry a 503
+const OVERLOADED_STATUS = 529;
+const SERVICE_UNAVAILABLE_STATUS = 503;
+
+function toClaudeImage(part: OpenAIImagePart): ClaudeImageBlock {
+  const dataUrl = part.image_url.url.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (dataUrl) {
+    return { type: 'image', source: { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] } };
+  }
+  return { type: 'image', source: { type: 'url', url: part.image_url.url } };
+}
+
+function toClaudeContent(content: string | OpenAIContentPart[] | null | undefined): ClaudeContentBlock[] {
+  if (!content) {
+    return [];
+  }
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: content }];
+  }
+  // Audio and other part types have no Claude equivalent
+  return content.flatMap((part): ClaudeContentBlock[] => {
+    if (part.type === 'text') return [{ type: 'text', text: part.text }];
+    if (part.type === 'image_url') return [toClaudeImage(part)];
+    return [];
+  });
+}
+
+function flattenContent(content: string | OpenAIContentPart[] | null | undefined): string {
+  return toClaudeContent(content)
+    .filter((block): block is ClaudeTextBlock => block.type === 'text')
+    .map(block => block.text)
+    .join('\n');
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    return JSON.parse(args || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function toClaudeToolChoice(choice: ChatCompletionRequest['tool_choice']): ClaudeToolChoice | undefined {
+  if (choice === 'required') return { type: 'any' };
+  if (typeof choice === 'object' && choice.function?.name) return { type: 'tool', name: choice.function.name };
+  return choice === 'auto' ? { type: 'auto' } : undefined;
+}
+
+const CHAT_ROLES = ['system', 'developer', 'user', 'assistant', 'tool'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Text and image parts are converted; other part types are dropped later
+function checkContent(msg: Record<string, unknown>, path: string): void {
+  const content = msg.content;
+  if (content === undefined || content === null) {
+    if (msg.role !== 'assistant') {
+      throw invalidRequestError(`${path}.content: field required`);
+    }
+    return;
+  }
+  if (typeof content === 'string') {
+    return;
+  }
+  if (!Array.isArray(content)) {
+    throw invalidRequestError(`${path}.content: must be a string or an array of content parts`);
+  }
+  content.forEach((part: unknown, j) => {
+    if (!isObject(part) || typeof part.type !== 'string') {
+      throw invalidRequestError(`${path}.content.${j}.type: field required`);
+    }
+    if (part.type === 'text' && typeof part.text !== 'string') {
+      throw invalidRequestError(`${path}.content.${j}.text: must be a string`);
+    }
+    if (part.type === 'image_url' && (!isObject(part.image_url) || typeof part.image_url.url !== 'string')) {
+      throw invalidRequestError(`${path}.content.${j}.image_url.url: must be a string`);
+    }
+  });
+}
+
+function checkToolCalls(toolCalls: unknown, path: string): void {
+  if (!Array.isArray(toolCalls)) {
+    throw invalidRequestError(`${path}: must be an array`);
+  }
+  toolCalls.forEach((call: unknown, j) => {
+    if (!isObject(call)) {
+      throw invalidRequestError(`${path}.${j}: must be an object`);
+    }
+    if (typeof call.id !== 'string') {
+      throw invalidRequestError(`${path}.${j}.id: must be a string`);
+    }
+    if (!isObject(call.function)) {
+      throw invalidRequestError(`${path}.${j}.function: must be an object`);
+    }
+    if (typeof call.function.name !== 'string') {
+      throw invalidRequestError(`${path}.${j}.function.name: must be a string`);
+    }
+    if (call.function.arguments !== undefined && typeof call.function.arguments !== 'string') {
+      throw invalidRequestError(`${path}.${j}.function.arguments: must be a string`);
+    }
+  });
+}
+
+// Reject malformed messages with the path of the offending field, the way
+// the Messages endpoint does, before they are converted
+function validateChatMessages(messages: unknown[]): asserts messages is ChatCompletionMessage[] {
+  messages.forEach((msg, i) => {
+    const path = `messages.${i}`;
+    if (!isObject(msg)) {
+      throw invalidRequestError(`${path}: must be an object`);
+    }
+    if (typeof msg.role !== 'string' || !CHAT_ROLES.includes(msg.role)) {
+      throw invalidRequestError(`${path}.role: must be one of ${CHAT_ROLES.map(role => `"${role}"`).join(', ')}`);
+    }
+    checkContent(msg, path);
+    if (msg.tool_calls !== undefined && msg.tool_calls !== null) {
+      checkToolCalls(msg.tool_calls, `${path}.tool_calls`);
+    }
+    if (msg.role === 'tool' && typeof msg.tool_call_id !== 'string') {
+      throw invalidRequestError(`${path}.tool_call_id: must be a string`);
+    }
+  });
+}
+
+function validateTools(tools: unknown): void {
+  if (tools === undefined || tools === null) {
+    return;
+  }
+  if (!Array.isArray(tools)) {
+    throw invalidRequestError('tools: must be an array');
+  }
+  tools.forEach((tool: unknown, i) => {
+    if (!isObject(tool) || !isObject(tool.function)) {
+      throw invalidRequestError(`tools.${i}.function: must be an object`);
+    }
+    if (typeof tool.function.name !== 'string') {
+      throw invalidRequestError(`tools.${i}.function.name: must be a string`);
+    }
+  });
+}
+
+// Claude alternates user and assistant turns: system messages move to the
+// system prompt, tool results become tool_result blocks in a user turn, and
+// consecutive messages of one role are merged
+function toClaudeMessages(messages: ChatCompletionMessage[]): { system: string[]; messages: ClaudeMessage[] } {
+  const system: string[] = [];
+  const result: ClaudeMessage[] = [];
+
+  const append = (role: ClaudeMessage['role'], blocks: ClaudeContentBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = result[result.length - 1];
+    if (last?.role === role) {
+      (last.content as ClaudeContentBlock[]).push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  for (const msg of messages) {
+    switch (msg.role) {
+      case 'system':
+      case 'developer':
+        system.push(flattenContent(msg.content));
+        break;
+      case 'user':
+        append('user', toClaudeContent(msg.content));
+        break;
+      case 'assistant':
+        append('assistant', [
+          ...toClaudeContent(msg.content),
+          ...(msg.tool_calls || []).map((call): ClaudeToolUseBlock => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.function.name,
+            input: parseArguments(call.function.arguments),
+          })),
+        ]);
+        break;
+      case 'tool':
+        append('user', [{
+          type: 'tool_result',
+          tool_use_id: msg.tool_call_id || '',
+          content: flattenContent(msg.content),
+        }]);
+        break;
+    }
+  }
+  return { system, messages: result };
+}
+
+// The Messages request an OpenAI chat completion request stands for
+export function toClaudeRequest(body: ChatCompletionRequest): ClaudeRequest {
+  if (typeof body?.model !== 'string') {
+    throw invalidRequestError('model: field required');
+  }
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    throw invalidRequestError('messages: must be a non-empty array');
+  }
+  validateChatMessages(body.messages);
+  validateTools(body.tools);
+
+  const { system, messages } = toClaudeMessages(body.messages);
+  if (messages.length === 0) {
+    throw invalidRequestError('messages: must contain at least one user, assistant or tool message with content');
+  }
+  const toolChoice = toClaudeToolChoice(body.tool_choice);
+  const tools = body.tool_choice !== 'none' && body.tools?.length
+    ? body.tools.map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description || '',
+      input_schema: tool.function.parameters || { type: 'object' as const, properties: {} },
+    }))
+    : undefined;
+
+  return {
+    model: body.model,
+    max_tokens: body.max_completion_tokens ?? body.max_tokens ?? DEFAULT_MAX_TOKENS,
+    messages,
+    ...(system.length > 0 && { system: system.join('\n\n') }),
+    temperature: body.temperature,
+    top_p: body.top_p,
+    stream: body.stream,
+    stop_sequences: typeof body.stop === 'string' ? [body.stop] : body.stop,
+    ...(tools && { tools }),
+    ...(tools && toolChoice && { tool_choice: toolChoice }),
+    ...(body.reasoning_effort && { thinking: { type: 'enabled' as const, budget_tokens: THINKING_BUDGETS[body.reasoning_effort] } }),
+    ...(body.user && { metadata: { user_id: body.user } }),
+  };
+}
+
+function toFinishReason(stopReason: string | null | undefined): string {
+  switch (stopReason) {
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'tool_calls';
+    default:
+      return 'stop';
+  }
+}
+
+// Prompt tokens include the ones read from or written to the prompt cache
+function toOpenAIUsage(usage: Partial<ClaudeUsage>): OpenAIUsage {
+  const cacheRead = usage.cache_read_input_tokens || 0;
+  const promptTokens = (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + cacheRead;
+  const completionTokens = usage.output_tokens || 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    ...(cacheRead > 0 && { prompt_tokens_details: { cached_tokens: cacheRead } }),
+  };
+}
+
+function toChatCompletionId(messageId: string): string {
+  return `chatcmpl-${messageId.replace(/^msg_/, '')}`;
+}
+
+export function toChatCompletion(message: ClaudeResponse): OpenAIResponse {
+  const text = message.content
+    .filter((block): block is ClaudeTextBlock => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+  const thinking = message.content
+    .filter((block): block is ClaudeThinkingBlock => block.type === 'thinking')
+    .map(block => block.thinking)
+    .join('');
+  const toolCalls = message.content
+    .filter((block): block is ClaudeToolUseBlock => block.type === 'tool_use')
+    .map(block => ({
+      id: block.id,
+      type: 'function' as const,
+      function: { name: block.name, arguments: JSON.stringify(block.input) },
+    }));
+
+  return {
+    id: toChatCompletionId(message.id),
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: message.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: text || null,
+        ...(thinking && { reasoning_content: thinking }),
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      },
+      finish_reason: toFinishReason(message.stop_reason),
+    }],
+    usage: toOpenAIUsage(message.usage),
+  };
+}
+
+// Rewrite the Messages events that provider.stream() sends into OpenAI
+// chat.completion.chunk events, ending with data: [DONE]. Thinking becomes
+// reasoning_content and tool_use blocks become tool_calls deltas.
+export function createChatCompletionStream(res: Response, body: ChatCompletionRequest): SseSink {
+  let id = '';
+  let model = '';
+  let finishReason = 'stop';
+  const created = Math.floor(Date.now() / 1000);
+  const usage: Partial<ClaudeUsage> = {};
+  // Content block index -> OpenAI tool call index
+  const toolCalls = new Map<number, number>();
+
+  const send = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+  const chunk = (delta: Record<string, unknown>, finish: string | null = null) => send({
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finish }],
+  });
+
+  return rewriteMessageStream(res, (event, data) => {
+    switch (event) {
+      case 'message_start':
+        id = toChatCompletionId(data.message?.id || '');
+        model = data.message?.model || '';
+        Object.assign(usage, data.message?.usage);
+        chunk({ role: 'assistant', content: '' });
+        break;
+      case 'content_block_start':
+        if (data.content_block?.type === 'tool_use' && data.index !== undefined) {
+          const index = toolCalls.size;
+          toolCalls.set(data.index, index);
+          chunk({
+            tool_calls: [{ index, id: data.content_block.id, type: 'function', function: { name: data.content_block.name, arguments: '' } }],
+          });
+        }
+        break;
+      case 'content_block_delta':
+        if (data.delta?.type === 'text_delta' && data.delta.text) {
+          chunk({ content: data.delta.text });
+        } else if (data.delta?.type === 'thinking_delta' && data.delta.thinking) {
+          chunk({ reasoning_content: data.delta.thinking });
+        } else if (data.delta?.type === 'input_json_delta' && data.delta.partial_json && data.index !== undefined) {
+          chunk({ tool_calls: [{ index: toolCalls.get(data.index), function: { arguments: data.delta.partial_json } }] });
+        }
+        break;
+      case 'message_delta':
+        finishReason = toFinishReason(data.delta?.stop_reason);
+        Object.assign(usage, data.usage);
+        break;
+      case 'message_stop':
+        chunk({}, finishReason);
+        if (body.stream_options?.include_usage) {
+          send({ id, object: 'chat.completion.chunk', created, model, choices: [], usage: toOpenAIUsage(usage) });
+        }
+        res.write('data: [DONE]\n\n');
+        break;
+      case 'error':
+        send({ error: data.error });
+        break;
+    }
+  });
+}
+
+// Send an error in OpenAI's format, as an error chunk once a stream has started
+export function sendChatCompletionError(res: Response, error: unknown): void {
+  const anthropicError = toAnthropicError(error);
+  const body = { error: { message: anthropicError.message, type: anthropicError.type, param: null, code: null } };
+
+  if (res.headersSent) {
+    if (!res.writableEnded) {
+      res.write(`data: ${JSON.stringify(body)}\n\n`);
+      res.end();
+    }
+    return;
+  }
+
+  const status = anthropicError.status === OVERLOADED_STATUS ? SERVICE_UNAVAILABLE_STATUS : anthropicError.status;
+  res.status(status).json(body);
+}
@@ -0,0 +1,154 @@
+import { Response } from 'express';
+import {
+  ClaudeMessage,
+  ClaudeRequest,
+  ClaudeResponse,
+  ClaudeTextBlock,
+  CompletionRequest,
+  CompletionResponse,
+  SseSink,
+} from './types';
+import { invalidRequestError } from './errors';
+import { rewriteMessageStream } from './message-stream';
+
+// Turn markers; old clients sometimes leave out the blank line before the first one
+const TURN_PATTERN = /(?:^|\n\n)(Human|Assistant):/g;
+
+// Split a legacy prompt into the text before the first turn (sent as the
+// system prompt) and alternating turns, merging consecutive turns of one role
+function parsePrompt(prompt: string): { system?: string; messages: ClaudeMessage[] } {
+  const markers = [...prompt.matchAll(TURN_PATTERN)];
+  if (markers.length === 0 || markers[0][1] !== 'Human') {
+    throw invalidRequestError('prompt: must start with "\\n\\nHuman:" turn');
+  }
+  if (markers[markers.length - 1][1] !== 'Assistant') {
+    throw invalidRequestError('prompt: must end with "\\n\\nAssistant:" turn');
+  }
+
+  const system = prompt.substring(0, markers[0].index).trim();
+  const messages: ClaudeMessage[] = [];
+  markers.forEach((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index : prompt.length;
+    const text = prompt.substring(start, end).trim();
+    const role = marker[1] === 'Human' ? 'user' : 'assistant';
+
+    const previous = messages[messages.length - 1];
+    if (previous?.role === role) {
+      previous.content = `${previous.content}\n\n${text}`;
+    } else {
+      messages.push({ role, content: text });
+    }
+  });
+
+  // An empty final Assistant turn is where the reply goes; text there is a prefill
+  const last = messages[messages.length - 1];
+  if (last.content === '') {
+    messages.pop();
+  }
+  return { system: system || undefined, messages };
+}
+
+// Reject a missing or mistyped field up front, before routing reads it
+function checkRequiredField(body: CompletionRequest, key: 'model' | 'prompt' | 'max_tokens_to_sample', type: 'string' | 'number'): void {
+  const value: unknown = body?.[key];
+  if (value === undefined || value === null) {
+    throw invalidRequestError(`${key}: field required`);
+  }
+  if (typeof value !== type) {
+    throw invalidRequestError(`${key}: must be a ${type}`);
+  }
+}
+
+// The Messages request a legacy completion request stands for
+export function toMessagesRequest(body: CompletionRequest): ClaudeRequest {
+  checkRequiredField(body, 'model', 'string');
+  checkRequiredField(body, 'prompt', 'string');
+  checkRequiredField(body, 'max_tokens_to_sample', 'number');
+  if (!body.model) {
+    throw invalidRequestError('model: must not be empty');
+  }
+  if (!Number.isInteger(body.max_tokens_to_sample) || body.max_tokens_to_sample < 1) {
+    throw invalidRequestError('max_tokens_to_sample: must be an integer of at least 1');
+  }
+
+  const { system, messages } = parsePrompt(body.prompt);
+  return {
+    model: body.model,
+    max_tokens: body.max_tokens_to_sample,
+    messages,
+    ...(system && { system }),
+    temperature: body.temperature,
+    top_p: body.top_p,
+    top_k: body.top_k,
+    stream: body.stream,
+    stop_sequences: body.stop_sequences,
+    metadata: body.metadata,
+  };
+}
+
+// end_turn and stop sequences both count as a stop for legacy clients
+function toCompletionStopReason(stopReason: string | null): CompletionResponse['stop_reason'] {
+  if (stopReason === null) {
+    return null;
+  }
+  return stopReason === 'max_tokens' ? 'max_tokens' : 'stop_sequence';
+}
+
+function toCompletionId(messageId: string): string {
+  return `compl_${messageId.replace(/^msg_/, '')}`;
+}
+
+export function toCompletionResponse(message: ClaudeResponse): CompletionResponse {
+  return {
+    id: toCompletionId(message.id),
+    type: 'completion',
+    completion: message.content
+      .filter((block): block is ClaudeTextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join(''),
+    stop_reason: toCompletionStopReason(message.stop_reason),
+    stop: message.stop_sequence,
+    model: message.model,
+  };
+}
+
+// Rewrite the Messages events that provider.stream() sends into legacy
+// completion events: one per text delta, then a final one carrying the stop
+// reason. Thinking and tool events have no legacy form.
+export function createCompletionStream(res: Response): SseSink {
+  let id = '';
+  let model = '';
+  let stopReason: string | null = null;
+  let stop: string | null = null;
+
+  const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  const completion = (text: string, reason: CompletionResponse['stop_reason']): CompletionResponse => ({
+    id, type: 'completion', completion: text, stop_reason: reason, stop: reason ? stop : null, model,
+  });
+
+  return rewriteMessageStream(res, (event, data) => {
+    switch (event) {
+      case 'message_start':
+        id = toCompletionId(data.message?.id || '');
+        model = data.message?.model || '';
+        break;
+      case 'content_block_delta':
+        if (data.delta?.type === 'text_delta' && data.delta.text) {
+          send('completion', completion(data.delta.text, null));
+        }
+        break;
+      case 'message_delta':
+        stopReason = data.delta?.stop_reason ?? stopReason;
+        stop = data.delta?.stop_sequence ?? stop;
+        break;
+      case 'message_stop':
+        send('completion', completion('', toCompletionStopReason(stopReason ?? 'end_turn')));
+        break;
+      case 'ping':
+      case 'error':
+        send(event, data);
+        break;
+    }
+  });
+}
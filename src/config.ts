@@ -1,10 +1,23 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'yaml';
-import { Config, Provider } from './types';
+import {
+  BuiltinProvider,
+  Config,
+  OllamaConfig,
+  Provider,
+  ProviderConfig,
+  RequestAttributes,
+  ResolvedRoute,
+  RouteConfig,
+  RouteEntry,
+} from './types';
+import { compileRulePatterns, describeRule, getUnmetConditions, matchesPattern, sortRules } from './rules';
 
 const CONFIG_FILENAME = 'sona-router.config.yaml';
 
+export const BUILTIN_PROVIDERS: BuiltinProvider[] = ['lmstudio', 'ollama'];
+
 export const DEFAULT_CONFIG: Config = {
   provider: 'lmstudio',
   port: 9001,
@@ -50,7 +63,14 @@ export function configExists(): boolean {
   return fs.existsSync(getConfigPath());
 }
 
+// Throws when a route rule's pattern is not a valid regex
 export function loadConfig(): Config {
+  const config = readConfigFile();
+  compileRulePatterns(config.rules || []);
+  return config;
+}
+
+function readConfigFile(): Config {
   const configPath = getConfigPath();
 
   if (!fs.existsSync(configPath)) {
@@ -64,6 +84,18 @@ export function loadConfig(): Config {
     return {
       provider: parsed.provider || DEFAULT_CONFIG.provider,
       port: parsed.port || DEFAULT_CONFIG.port,
+      requestTimeout: parsed.requestTimeout,
+      contextOverflow: parsed.contextOverflow,
+      rules: parsed.rules,
+      routes: parsed.routes,
+      openaiCompatible: parsed.openaiCompatible,
+      batches: parsed.batches,
+      files: parsed.files,
+      fallback: parsed.fallback,
+      healthCheck: parsed.healthCheck,
+      listBackendModels: parsed.listBackendModels,
+      documents: parsed.documents,
+      validation: parsed.validation,
       lmstudio: {
         ...DEFAULT_CONFIG.lmstudio,
         ...parsed.lmstudio,
@@ -108,14 +140,40 @@ export function setPort(port: number): Config {
 
 export function setProviderUrl(provider: Provider, url: string): Config {
   const config = loadConfig();
-  config[provider].baseUrl = url;
+  getProviderConfig(config, provider).baseUrl = url;
   saveConfig(config);
   return config;
 }
 
 export function setProviderModel(provider: Provider, model: string): Config {
   const config = loadConfig();
-  config[provider].model = model;
+  getProviderConfig(config, provider).model = model;
+  saveConfig(config);
+  return config;
+}
+
+// Ollama's OpenAI shim ignores num_ctx, so a configured context size needs the native API
+export function getOllamaApi(ollama: OllamaConfig): 'openai' | 'native' {
+  if (ollama.api) {
+    return ollama.api;
+  }
+  const hasContextSize = ollama.contextWindow !== undefined
+    || Object.keys(ollama.contextWindows || {}).length > 0
+    || ollama.options?.num_ctx !== undefined;
+  return hasContextSize ? 'native' : 'openai';
+}
+
+// Whether the active provider or any rule or route sends requests to Ollama
+export function usesOllama(config: Config): boolean {
+  const entries = [...(config.rules || []), ...Object.values(config.routes || {}).map(normalizeRouteEntry)];
+  return config.provider === 'ollama' || entries.some(entry =>
+    [entry.target, ...(entry.fallbacks || [])].some(target => target.startsWith('ollama/'))
+  );
+}
+
+export function setOllamaApi(api: 'openai' | 'native'): Config {
+  const config = loadConfig();
+  config.ollama.api = api;
   saveConfig(config);
   return config;
 }
@@ -126,30 +184,214 @@ export function setModelRouting(
   localModel: string
 ): Config {
   const config = loadConfig();
-  if (!config[provider].modelRouting) {
-    config[provider].modelRouting = {};
+  const providerConfig = getProviderConfig(config, provider);
+  if (!providerConfig.modelRouting) {
+    providerConfig.modelRouting = {};
   }
-  config[provider].modelRouting[claudeModel] = localModel;
+  providerConfig.modelRouting[claudeModel] = localModel;
   saveConfig(config);
   return config;
 }
 
-export function resolveModel(config: Config, requestedModel: string): string {
-  const providerConfig = config[config.provider];
-  const routing = providerConfig.modelRouting || {};
+export function setRoute(claudeModel: string, target: string, vision = false, fallbacks: string[] = []): Config {
+  const config = loadConfig();
+  if (!config.routes) {
+    config.routes = {};
+  }
+  if (vision) {
+    config.routes[claudeModel] = { target, vision, ...(fallbacks.length > 0 && { fallbacks }) };
+  } else {
+    config.routes[claudeModel] = fallbacks.length > 0 ? [target, ...fallbacks] : target;
+  }
+  saveConfig(config);
+  return config;
+}
 
-  // Try exact match first
-  if (routing[requestedModel]) {
-    return routing[requestedModel];
+export function isBuiltinProvider(name: string): name is BuiltinProvider {
+  return (BUILTIN_PROVIDERS as string[]).includes(name);
+}
+
+// All configured backends: the built-in providers plus named openai-compatible entries
+export function listProviders(config: Config): Provider[] {
+  return [
+    ...BUILTIN_PROVIDERS,
+    ...(config.openaiCompatible || []).map(entry => entry.name),
+  ];
+}
+
+export function isProvider(config: Config, name: string): boolean {
+  return listProviders(config).includes(name);
+}
+
+export function getProviderConfig(config: Config, provider: Provider): ProviderConfig {
+  if (isBuiltinProvider(provider)) {
+    return config[provider];
   }
 
-  // Try prefix match (e.g., "claude-3-opus-20240229" matches "claude-3-opus")
-  for (const [pattern, localModel] of Object.entries(routing)) {
-    if (requestedModel.startsWith(pattern)) {
-      return localModel;
+  const entry = config.openaiCompatible?.find(e => e.name === provider);
+  if (!entry) {
+    throw new Error(`Unknown provider: ${provider}`);
+  }
+  return entry;
+}
+
+// Parse a "provider/model" route target. Targets without a known provider
+// prefix (e.g. "lmstudio-community/qwen2.5-7b") use the active provider.
+export function parseRouteTarget(config: Config, target: string): ResolvedRoute {
+  const slashIndex = target.indexOf('/');
+  if (slashIndex > 0) {
+    const prefix = target.substring(0, slashIndex);
+    if (isProvider(config, prefix)) {
+      return { provider: prefix, model: target.substring(slashIndex + 1) };
     }
   }
+  return { provider: config.provider, model: target };
+}
+
+export function normalizeRouteEntry(entry: RouteEntry): RouteConfig {
+  if (typeof entry === 'string') {
+    return { target: entry };
+  }
+  if (Array.isArray(entry)) {
+    return { target: entry[0], fallbacks: entry.slice(1) };
+  }
+  return entry;
+}
+
+function resolveRouteEntry(config: Config, entry: RouteEntry): ResolvedRoute {
+  const routeConfig = normalizeRouteEntry(entry);
+  const fallbacks = (routeConfig.fallbacks || []).map(target => parseRouteTarget(config, target));
+  return {
+    ...parseRouteTarget(config, routeConfig.target),
+    ...(routeConfig.vision && { vision: true }),
+    ...(fallbacks.length > 0 && { fallbacks }),
+  };
+}
+
+// Look up a key set in the config itself, so model ids such as "constructor"
+// or "toString" never resolve to Object.prototype members
+function getOwn<T>(record: Record<string, T> | undefined, key: string): T | undefined {
+  return record && Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+// Exact match first, then the longest matching prefix (e.g.
+// "claude-3-5-sonnet-20241022" matches "claude-3-5-sonnet" over "claude-3")
+function matchRouting<T>(routing: Record<string, T>, requestedModel: string): { pattern: string; target: T } | undefined {
+  const exact = getOwn(routing, requestedModel);
+  if (exact) {
+    return { pattern: requestedModel, target: exact };
+  }
+
+  let best: { pattern: string; target: T } | undefined;
+  for (const [pattern, target] of Object.entries(routing)) {
+    if (requestedModel.startsWith(pattern) && (!best || pattern.length > best.pattern.length)) {
+      best = { pattern, target };
+    }
+  }
+  return best;
+}
+
+export interface RouteExplanation {
+  route: ResolvedRoute;
+  // The part of the configuration that picked the route
+  source: string;
+  // Rules whose pattern matched but whose conditions did not, with what was missing
+  skipped: { rule: string; unmet: string[] }[];
+}
+
+// Resolve a requested model and say why: rules in priority order, then the
+// routes table, then the active provider's modelRouting, then provider/model
+// ids, then the active provider's default model
+export function explainRoute(config: Config, requestedModel: string, attributes: RequestAttributes = {}): RouteExplanation {
+  const skipped: RouteExplanation['skipped'] = [];
+  for (const { rule, index } of sortRules(config.rules || [])) {
+    if (!matchesPattern(rule.match, requestedModel)) {
+      continue;
+    }
+    const unmet = getUnmetConditions(rule.when, attributes);
+    if (unmet.length > 0) {
+      skipped.push({ rule: describeRule(rule, index), unmet });
+      continue;
+    }
+    // A rule that only takes image requests is a vision route
+    const entry = rule.when?.images ? { ...rule, vision: true } : rule;
+    return { route: resolveRouteEntry(config, entry), source: describeRule(rule, index), skipped };
+  }
+
+  const routeMatch = matchRouting(config.routes || {}, requestedModel);
+  if (routeMatch) {
+    return { route: resolveRouteEntry(config, routeMatch.target), source: `routes: ${routeMatch.pattern}`, skipped };
+  }
+
+  const providerConfig = getProviderConfig(config, config.provider);
+  const localMatch = matchRouting(providerConfig.modelRouting || {}, requestedModel);
+  if (localMatch) {
+    return {
+      route: { provider: config.provider, model: localMatch.target },
+      source: `${config.provider} modelRouting: ${localMatch.pattern}`,
+      skipped,
+    };
+  }
+
+  // Explicit "provider/model" ids, as listed by /v1/models
+  const direct = parseRouteTarget(config, requestedModel);
+  if (direct.model !== requestedModel) {
+    return { route: direct, source: 'provider/model id', skipped };
+  }
+
+  return { route: { provider: config.provider, model: providerConfig.model }, source: `${config.provider} default model`, skipped };
+}
+
+export function resolveModel(config: Config, requestedModel: string, attributes: RequestAttributes = {}): ResolvedRoute {
+  return explainRoute(config, requestedModel, attributes).route;
+}
+
+// Pick a vision-capable route for an image-bearing request, preferring one
+// declared for the requested model, else the first vision route configured
+export function resolveVisionRoute(config: Config, requestedModel: string): ResolvedRoute | undefined {
+  const visionRoutes: Record<string, RouteEntry> = {};
+  for (const [claudeModel, entry] of Object.entries(config.routes || {})) {
+    if (normalizeRouteEntry(entry).vision) {
+      visionRoutes[claudeModel] = entry;
+    }
+  }
+
+  const entry = matchRouting(visionRoutes, requestedModel)?.target ?? Object.values(visionRoutes)[0];
+  return entry ? resolveRouteEntry(config, entry) : undefined;
+}
+
+// Context window for a routed model: per-model setting first, then the provider default
+export function getContextWindow(config: Config, route: ResolvedRoute): number | undefined {
+  const providerConfig = getProviderConfig(config, route.provider);
+  return getOwn(providerConfig.contextWindows, route.model) ?? providerConfig.contextWindow;
+}
+
+// Every distinct provider/model pair the routing configuration can send requests to
+export function listRouteTargets(config: Config): ResolvedRoute[] {
+  const targets: ResolvedRoute[] = [];
+  const seen = new Set<string>();
+
+  const add = (route: ResolvedRoute) => {
+    const key = `${route.provider}/${route.model}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      targets.push(route);
+    }
+  };
+
+  for (const entry of [...(config.rules || []), ...Object.values(config.routes || {})]) {
+    const route = resolveRouteEntry(config, entry);
+    add({ provider: route.provider, model: route.model, ...(route.vision && { vision: true }) });
+    for (const fallback of route.fallbacks || []) {
+      add(fallback);
+    }
+  }
+  for (const localModel of Object.values(getProviderConfig(config, config.provider).modelRouting || {})) {
+    add({ provider: config.provider, model: localModel });
+  }
+  for (const provider of listProviders(config)) {
+    add({ provider, model: getProviderConfig(config, provider).model });
+  }
 
-  // Fall back to default model
-  return providerConfig.model;
+  return targets;
 }
@@ -0,0 +1,233 @@
+import {
+  Config,
+  ClaudeRequest,
+  BetaFeature,
+  PromptCacheContext,
+  RequestAttributes,
+  RequestContext,
+  ResolvedRoute,
+  TokenCountRequest,
+} from './types';
+import { resolveModel, resolveVisionRoute, getContextWindow, listRouteTargets } from './config';
+import { countRequestTokens } from './tokens';
+import { rulesNeedPromptTokens } from './rules';
+import { AnthropicError, invalidRequestError, isBackendFailure, toAnthropicError } from './errors';
+import { BaseProvider } from './providers';
+import chalk from 'chalk';
+
+// Routing shared by the HTTP endpoints and the batch queue
+
+export interface RequestOptions {
+  requestId?: string;
+  betaFeatures?: BetaFeature[];
+  signal?: AbortSignal;
+  promptCache?: PromptCacheContext;
+  endpoint?: string;
+}
+
+export function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// Build the routing context for a single request
+export function createRequestContext(config: Config, route: ResolvedRoute, options: RequestOptions = {}): RequestContext {
+  return {
+    requestId: options.requestId || generateRequestId(),
+    model: route.model,
+    betaFeatures: options.betaFeatures || [],
+    deadline: config.requestTimeout ? Date.now() + config.requestTimeout : undefined,
+    contextWindow: getContextWindow(config, route),
+    signal: options.signal,
+    promptCache: options.promptCache,
+    endpoint: options.endpoint,
+    documentPageImages: Boolean(route.vision && config.documents?.pageImages),
+    documentMaxSize: config.documents?.maxSize,
+  };
+}
+
+// Whether any message carries an image, including images inside tool results
+function requestHasImages(request: TokenCountRequest): boolean {
+  return request.messages.some(msg =>
+    typeof msg.content !== 'string' && msg.content.some(block =>
+      block.type === 'image' ||
+      (block.type === 'tool_result' && typeof block.content !== 'string' &&
+        block.content.some(b => b.type === 'image'))
+    )
+  );
+}
+
+// Attributes routing rules can test; the prompt is only sized when a rule asks for it
+function getRequestAttributes(config: Config, request: TokenCountRequest, betaFeatures: BetaFeature[]): RequestAttributes {
+  return {
+    tools: Boolean(request.tools && request.tools.length > 0),
+    images: requestHasImages(request),
+    thinking: request.thinking?.type === 'enabled',
+    promptTokens: rulesNeedPromptTokens(config.rules || []) ? countRequestTokens(request, request.model, config.documents?.maxSize) : undefined,
+    betaFeatures,
+  };
+}
+
+// Resolve the route for a request, moving image-bearing requests to a vision route
+export function resolveRoute(config: Config, request: TokenCountRequest, betaFeatures: BetaFeature[] = []): ResolvedRoute {
+  const route = resolveModel(config, request.model, getRequestAttributes(config, request, betaFeatures));
+  if (route.vision || !requestHasImages(request)) {
+    return route;
+  }
+
+  const visionRoute = resolveVisionRoute(config, request.model);
+  if (visionRoute) {
+    console.log(chalk.yellow('  Request has images, using vision route:'), chalk.green(`${visionRoute.provider}/${visionRoute.model}`));
+    return visionRoute;
+  }
+  return route;
+}
+
+// Check the estimated prompt size against the routed model's context window.
+// Depending on config.contextOverflow this warns, moves the request to the
+// smallest route that fits, or rejects it the way Anthropic does.
+function fitContextWindow(config: Config, route: ResolvedRoute, request: ClaudeRequest): ResolvedRoute {
+  const contextWindow = getContextWindow(config, route);
+  if (contextWindow === undefined) {
+    return route;
+  }
+
+  const promptTokens = countRequestTokens(request, route.model, config.documents?.maxSize);
+  if (promptTokens <= contextWindow) {
+    return route;
+  }
+
+  const mode = config.contextOverflow || 'reroute';
+  console.log(
+    chalk.yellow('  Prompt exceeds context window:'),
+    chalk.white(`~${promptTokens} tokens > ${contextWindow} for ${route.provider}/${route.model}`)
+  );
+
+  if (mode === 'warn') {
+    return route;
+  }
+
+  if (mode === 'reroute') {
+    const candidates = listRouteTargets(config)
+      .map(target => ({ target, window: getContextWindow(config, target) }))
+      .filter((c): c is { target: ResolvedRoute; window: number } =>
+        c.window !== undefined && c.window >= promptTokens)
+      .sort((a, b) => a.window - b.window);
+
+    if (candidates.length > 0) {
+      const target = candidates[0].target;
+      console.log(chalk.yellow('  Rerouting to larger context:'), chalk.green(`${target.provider}/${target.model}`));
+      return target;
+    }
+  }
+
+  throw invalidRequestError(`prompt is too long: ${promptTokens} tokens > ${contextWindow} maximum`);
+}
+
+const DEFAULT_BACKOFF_MS = 500;
+
+function isContextOverflow(error: AnthropicError): boolean {
+  return error.type === 'invalid_request_error' && error.message.startsWith('prompt is too long');
+}
+
+// Failures another attempt or another backend may not have: connection
+// refused, 5xx, timeouts and context overflow
+function shouldFallback(error: unknown): boolean {
+  return isBackendFailure(error) || isContextOverflow(toAnthropicError(error));
+}
+
+export interface FallbackOptions {
+  // Whether the request can still be sent again, e.g. nothing has been streamed yet
+  canRetry?: () => boolean;
+  // Cancels the request, cutting short any backoff in progress
+  signal?: AbortSignal;
+}
+
+// Wait out a retry backoff, rejecting with an AbortError as soon as the
+// request is cancelled
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      const error = new Error('Request was cancelled during retry backoff');
+      error.name = 'AbortError';
+      reject(error);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
+
+// Run a request on its route, retrying with backoff (config.fallback) and then
+// moving down the route's fallback chain. Each target is checked against its
+// context window first, and an overflow skips straight to the next one.
+export async function runWithFallback<T>(
+  config: Config,
+  request: ClaudeRequest,
+  route: ResolvedRoute,
+  run: (target: ResolvedRoute) => Promise<T>,
+  options: FallbackOptions = {}
+): Promise<T> {
+  const chain = [route, ...(route.fallbacks || [])];
+  const retries = config.fallback?.retries ?? 0;
+  const backoff = config.fallback?.backoff ?? DEFAULT_BACKOFF_MS;
+  let lastError: unknown;
+
+  for (const [index, target] of chain.entries()) {
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      try {
+        return await run(fitContextWindow(config, target, request));
+      } catch (error) {
+        lastError = error;
+        if (!shouldFallback(error) || (options.canRetry && !options.canRetry())) {
+          throw error;
+        }
+        if (attempt === retries || isContextOverflow(toAnthropicError(error))) {
+          break;
+        }
+        const delay = backoff * 2 ** attempt;
+        console.log(
+          chalk.yellow(`  ${target.provider}/${target.model} failed, retrying in ${delay}ms:`),
+          chalk.gray((error as Error).message)
+        );
+        await sleep(delay, options.signal);
+      }
+    }
+
+    const next = chain[index + 1];
+    if (next) {
+      console.log(
+        chalk.yellow('  Falling back to'),
+        chalk.green(`${next.provider}/${next.model}`),
+        chalk.gray(`(${target.provider}/${target.model}: ${(lastError as Error).message})`)
+      );
+    }
+  }
+
+  throw lastError;
+}
+
+// Run one attempt on the backend instance the provider's load balancer picks,
+// reporting the outcome so failing instances are ejected
+export async function runOnEndpoint<T>(
+  provider: BaseProvider,
+  request: ClaudeRequest | TokenCountRequest,
+  run: (endpoint: string) => Promise<T>
+): Promise<T> {
+  const lease = provider.acquireEndpoint(request);
+  try {
+    const result = await run(lease.url);
+    lease.release();
+    return result;
+  } catch (error) {
+    lease.release(error);
+    throw error;
+  }
+}
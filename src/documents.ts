@@ -0,0 +1,322 @@
+import { createHash } from 'crypto';
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import {
+  ClaudeContentBlock,
+  ClaudeDocumentBlock,
+  ClaudeImageBlock,
+  ClaudeMessage,
+  ClaudeTextBlock,
+  DocumentConfig,
+} from './types';
+import { AnthropicError, invalidRequestError } from './errors';
+import { parsePdf, PdfPage } from './pdf';
+
+const DEFAULT_MAX_SIZE = 32 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 30 * 1000;
+const MAX_REDIRECTS = 5;
+
+// Addresses url documents are not downloaded from unless allowPrivateNetworks
+// is set: unspecified, private, shared (CGNAT), loopback, link-local (cloud
+// metadata endpoints), multicast and reserved ranges. IPv4-mapped IPv6
+// addresses are checked against the IPv4 ranges.
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_NETWORKS.addSubnet(prefix, bits, 'ipv6');
+}
+
+// Parsed PDFs by content hash and size cap: Claude Code resends the same
+// document on every turn of a conversation, and token counting renders it
+// again. The cap is part of the key so a PDF parsed under one limit is never
+// served under another.
+const PDF_CACHE_SIZE = 16;
+const pdfCache = new Map<string, PdfPage[]>();
+
+export interface RenderedDocument {
+  // The document as one delimited text part
+  text: string;
+  // Images that go with it: custom content images, and PDF page images when asked for
+  images: ClaudeImageBlock[];
+  // False when nothing readable came out, e.g. a scanned PDF without a text layer
+  hasText: boolean;
+}
+
+export interface RenderDocumentOptions {
+  pageImages?: boolean;
+  // Largest a PDF may inflate to (documents.maxSize)
+  maxSize?: number;
+}
+
+// Throws an invalid_request_error for PDFs that inflate past maxSize; other
+// unreadable PDFs yield no pages
+function readPdf(data: string, maxSize = DEFAULT_MAX_SIZE): PdfPage[] {
+  const key = `${createHash('sha256').update(data).digest('hex')}:${maxSize}`;
+  const cached = pdfCache.get(key);
+  if (cached) {
+    // Refresh its place in the LRU order
+    pdfCache.delete(key);
+    pdfCache.set(key, cached);
+    return cached;
+  }
+
+  let pages: PdfPage[];
+  try {
+    pages = parsePdf(Buffer.from(data, 'base64'), { maxInflatedSize: maxSize });
+  } catch (error) {
+    if (error instanceof AnthropicError) throw error;
+    pages = [];
+  }
+  pdfCache.set(key, pages);
+  if (pdfCache.size > PDF_CACHE_SIZE) {
+    pdfCache.delete(pdfCache.keys().next().value!);
+  }
+  return pages;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/\n/g, ' ');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function describeSource(block: ClaudeDocumentBlock): string {
+  const { source } = block;
+  switch (source.type) {
+    case 'url':
+      return `the document at ${source.url}`;
+    case 'file':
+      return `file ${source.file_id}`;
+    default:
+      return 'the document';
+  }
+}
+
+// Body of a document: its pages, its text, or a note saying why there is none
+function renderBody(
+  block: ClaudeDocumentBlock,
+  options: RenderDocumentOptions
+): { body: string; images: ClaudeImageBlock[]; hasText: boolean } {
+  const { source } = block;
+
+  if (source.type === 'text' || (source.type === 'base64' && source.media_type?.startsWith('text/'))) {
+    const text = source.type === 'text' ? source.data || '' : Buffer.from(source.data || '', 'base64').toString('utf-8');
+    return { body: text, images: [], hasText: text.trim().length > 0 };
+  }
+
+  if (source.type === 'content') {
+    const blocks = typeof source.content === 'string'
+      ? [{ type: 'text' as const, text: source.content }]
+      : source.content || [];
+    const text = blocks
+      .filter((b): b is ClaudeTextBlock => b.type === 'text')
+      .map(b => b.text)
+      .join('\n\n');
+    const images = blocks.filter((b): b is ClaudeImageBlock => b.type === 'image');
+    return { body: text, images, hasText: text.trim().length > 0 };
+  }
+
+  if (source.type === 'base64' && source.media_type === 'application/pdf' && source.data) {
+    const pages = readPdf(source.data, options.maxSize);
+    if (pages.length === 0) {
+      return { body: '[The PDF could not be read: it is encrypted or damaged]', images: [], hasText: false };
+    }
+
+    const body = pages
+      .map((page, i) => {
+        const text = page.text || (page.images.length > 0 ? '[Scanned page without a text layer]' : '[No text on this page]');
+        return `<page number="${i + 1}">\n${text}\n</page>`;
+      })
+      .join('\n');
+    const images: ClaudeImageBlock[] = options.pageImages
+      ? pages.flatMap(page => page.images.map(image => ({
+        type: 'image' as const,
+        source: { type: 'base64' as const, media_type: 'image/jpeg', data: image.toString('base64') },
+      })))
+      : [];
+    return { body, images, hasText: pages.some(page => page.text.length > 0) };
+  }
+
+  if (source.type === 'url' || source.type === 'file') {
+    return { body: `[The contents of ${describeSource(block)} are not available]`, images: [], hasText: false };
+  }
+  return { body: `[Unsupported document type ${source.media_type || 'unknown'}]`, images: [], hasText: false };
+}
+
+// A document as text a local model can read, delimited with its index (the
+// document_index citations refer to), title and context:
+//
+//   <document index="1" title="Q3 report" media_type="application/pdf" citations="enabled">
+//   <context>Quarterly numbers</context>
+//   <page number="1">
+//   ...
+//   </page>
+//   </document>
+export function renderDocument(block: ClaudeDocumentBlock, index: number, options: RenderDocumentOptions = {}): RenderedDocument {
+  const { body, images, hasText } = renderBody(block, options);
+
+  const attributes = [`index="${index}"`];
+  if (block.title) {
+    attributes.push(`title="${escapeAttribute(block.title)}"`);
+  }
+  const mediaType = block.source.type === 'text' ? 'text/plain' : block.source.media_type;
+  if (mediaType) {
+    attributes.push(`media_type="${escapeAttribute(mediaType)}"`);
+  }
+  if (block.citations?.enabled) {
+    attributes.push('citations="enabled"');
+  }
+
+  const parts = [`<document ${attributes.join(' ')}>`];
+  if (block.context) {
+    parts.push(`<context>${escapeText(block.context)}</context>`);
+  }
+  parts.push(body, '</document>');
+  return { text: parts.join('\n'), images, hasText };
+}
+
+// Numbers documents in the order they appear across a request, as Anthropic does
+export function createDocumentRenderer(options: RenderDocumentOptions = {}): (block: ClaudeDocumentBlock) => RenderedDocument {
+  let count = 0;
+  return block => renderDocument(block, ++count, options);
+}
+
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_NETWORKS.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+// dns.lookup that refuses hostnames resolving to a private address, checked
+// on the address actually connected to so DNS rebinding cannot get around it
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    const addresses = typeof address === 'string' ? [address] : (address || []).map(entry => entry.address);
+    const blocked = addresses.find(isPrivateAddress);
+    if (!error && blocked) {
+      callback(new Error(`${hostname} resolves to the private address ${blocked}`), address, family);
+      return;
+    }
+    callback(error, address, family);
+  });
+};
+
+function requestDocument(url: URL, config: DocumentConfig, signal: AbortSignal): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const httpModule = url.protocol === 'https:' ? https : http;
+    const req = httpModule.get(url, { signal, lookup: config.allowPrivateNetworks ? undefined : publicOnlyLookup }, resolve);
+    req.on('error', reject);
+  });
+}
+
+// Fetch a document's bytes, following redirects and stopping as soon as the
+// body passes maxSize
+async function fetchDocument(
+  url: URL,
+  config: DocumentConfig,
+  signal: AbortSignal,
+  redirects = 0
+): Promise<{ data: Buffer; contentType?: string }> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw invalidRequestError(`Document urls must use http or https: ${url}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (!config.allowPrivateNetworks && net.isIP(host) && isPrivateAddress(host)) {
+    throw invalidRequestError(`The document at ${url} is on a private network`);
+  }
+
+  const response = await requestDocument(url, config, signal);
+  const status = response.statusCode || 0;
+  if (status >= 300 && status < 400 && response.headers.location) {
+    response.resume();
+    if (redirects >= MAX_REDIRECTS) {
+      throw invalidRequestError(`Unable to download the document at ${url}: too many redirects`);
+    }
+    return fetchDocument(new URL(response.headers.location, url), config, signal, redirects + 1);
+  }
+  if (status < 200 || status >= 300) {
+    response.resume();
+    throw invalidRequestError(`Unable to download the document at ${url}: ${status} ${response.statusMessage || ''}`.trim());
+  }
+
+  const maxSize = config.maxSize ?? DEFAULT_MAX_SIZE;
+  const tooLarge = () => {
+    response.destroy();
+    return invalidRequestError(`The document at ${url} is larger than ${maxSize} bytes`);
+  };
+  if (Number(response.headers['content-length']) > maxSize) {
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > maxSize) {
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+  return { data: Buffer.concat(chunks), contentType: response.headers['content-type'] };
+}
+
+async function downloadDocument(
+  block: ClaudeDocumentBlock,
+  config: DocumentConfig,
+  signal?: AbortSignal
+): Promise<ClaudeDocumentBlock> {
+  const url = block.source.url || '';
+
+  let document: { data: Buffer; contentType?: string };
+  try {
+    const timeout = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+    document = await fetchDocument(new URL(url), config, signal ? AbortSignal.any([signal, timeout]) : timeout);
+  } catch (error) {
+    if (signal?.aborted || error instanceof AnthropicError) throw error;
+    throw invalidRequestError(`Unable to download the document at ${url}: ${(error as Error).message}`);
+  }
+
+  const { data } = document;
+  const contentType = document.contentType?.split(';')[0].trim();
+  const isPdf = contentType === 'application/pdf' || data.subarray(0, 5).toString('latin1') === '%PDF-';
+  return {
+    ...block,
+    title: block.title ?? (new URL(url).pathname.split('/').pop() || undefined),
+    source: {
+      type: 'base64',
+      media_type: isPdf ? 'application/pdf' : contentType || 'text/plain',
+      data: data.toString('base64'),
+    },
+  };
+}
+
+// Download url documents before conversion, which is synchronous. Returns the
+// request unchanged when it has none, otherwise a copy with base64 sources.
+export async function loadDocumentSources<T extends { messages: ClaudeMessage[] }>(
+  request: T,
+  config: DocumentConfig = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const isUrlDocument = (block: ClaudeContentBlock) => block.type === 'document' && block.source.type === 'url';
+  if (!request.messages.some(msg => typeof msg.content !== 'string' && msg.content.some(isUrlDocument))) {
+    return request;
+  }
+
+  const messages = await Promise.all(request.messages.map(async msg => {
+    if (typeof msg.content === 'string' || !msg.content.some(isUrlDocument)) {
+      return msg;
+    }
+    const content = await Promise.all(msg.content.map(block =>
+      block.type === 'document' && block.source.type === 'url' ? downloadDocument(block, config, signal) : block
+    ));
+    return { ...msg, content };
+  }));
+  return { ...request, messages };
+}
@@ -0,0 +1,120 @@
+// Errors surfaced to clients in Anthropic's error format
+export type AnthropicErrorType =
+  | 'invalid_request_error'
+  | 'not_found_error'
+  | 'request_too_large'
+  | 'rate_limit_error'
+  | 'api_error'
+  | 'overloaded_error';
+
+export class AnthropicError extends Error {
+  readonly type: AnthropicErrorType;
+  readonly status: number;
+
+  constructor(type: AnthropicErrorType, status: number, message: string) {
+    super(message);
+    this.name = 'AnthropicError';
+    this.type = type;
+    this.status = status;
+  }
+
+  toJSON() {
+    return {
+      type: 'error' as const,
+      error: {
+        type: this.type,
+        message: this.message,
+      },
+    };
+  }
+}
+
+// A failed call to a backend, keeping the HTTP status for error mapping
+export class UpstreamError extends Error {
+  readonly status?: number;
+  readonly body?: string;
+
+  constructor(message: string, status?: number, body?: string) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export function invalidRequestError(message: string): AnthropicError {
+  return new AnthropicError('invalid_request_error', 400, message);
+}
+
+export function notFoundError(message: string): AnthropicError {
+  return new AnthropicError('not_found_error', 404, message);
+}
+
+// Network failures that mean the backend is down or restarting
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EHOSTUNREACH', 'EPIPE'];
+
+const CONTEXT_OVERFLOW_PATTERN = /context (length|window|size)|maximum context|too long|exceeds? .*context|n_ctx/i;
+
+function getErrorCode(error: Error): string | undefined {
+  // fetch wraps socket errors: TypeError('fetch failed', { cause: { code } })
+  const cause = (error as Error & { cause?: { code?: string } }).cause;
+  return (error as NodeJS.ErrnoException).code || cause?.code;
+}
+
+function fromUpstreamStatus(error: UpstreamError, status: number): AnthropicError {
+  if (status === 400 || status === 413 || status === 422) {
+    // Claude Code compacts the conversation when it sees "prompt is too long"
+    if (CONTEXT_OVERFLOW_PATTERN.test(error.body || error.message)) {
+      return invalidRequestError(`prompt is too long: ${error.message}`);
+    }
+    return invalidRequestError(error.message);
+  }
+  if (status === 404) {
+    return notFoundError(error.message);
+  }
+  if (status === 429) {
+    return new AnthropicError('rate_limit_error', 429, error.message);
+  }
+  if (status === 502 || status === 503 || status === 504) {
+    return new AnthropicError('overloaded_error', 529, error.message);
+  }
+  return new AnthropicError('api_error', 500, error.message);
+}
+
+// Map any failure onto Anthropic's error taxonomy so clients retry and back
+// off the way they would against the real API
+export function toAnthropicError(error: unknown): AnthropicError {
+  if (error instanceof AnthropicError) {
+    return error;
+  }
+
+  if (error instanceof UpstreamError && error.status !== undefined) {
+    return fromUpstreamStatus(error, error.status);
+  }
+
+  if (error instanceof Error) {
+    const code = getErrorCode(error);
+    if (code && CONNECTION_ERROR_CODES.includes(code)) {
+      return new AnthropicError('overloaded_error', 529, `Backend unavailable: ${error.message} (${code})`);
+    }
+    if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+      return new AnthropicError('api_error', 500, `Backend request timed out: ${error.message}`);
+    }
+    return new AnthropicError('api_error', 500, error.message);
+  }
+
+  return new AnthropicError('api_error', 500, 'Unknown error');
+}
+
+// Whether a failure points at the backend itself (down, erroring or too
+// slow) rather than at the request, so another instance or target may succeed
+export function isBackendFailure(error: unknown): boolean {
+  if (error instanceof UpstreamError && error.status !== undefined) {
+    return error.status >= 500;
+  }
+  if (!(error instanceof Error) || error instanceof AnthropicError) {
+    return false;
+  }
+  const code = getErrorCode(error);
+  return error.name === 'TimeoutError' || (code !== undefined && CONNECTION_ERROR_CODES.includes(code));
+}
@@ -0,0 +1,273 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import {
+  ClaudeContentBlock,
+  ClaudeDocumentBlock,
+  ClaudeImageBlock,
+  ClaudeMessage,
+  Config,
+  FileListResponse,
+  FileMetadata,
+} from './types';
+import { invalidRequestError, notFoundError } from './errors';
+
+const DEFAULT_FILES_DIR = path.join('.sona-router', 'files');
+const DEFAULT_MAX_FILE_SIZE = 500 * 1024 * 1024;
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 1000;
+
+// Used when the upload is sent as application/octet-stream
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+interface MultipartPart {
+  name: string;
+  filename?: string;
+  contentType?: string;
+  data: Buffer;
+}
+
+export interface FileListOptions {
+  limit?: number;
+  beforeId?: string;
+  afterId?: string;
+}
+
+// Split a multipart/form-data body into its parts
+function parseMultipart(body: Buffer, contentType: string): MultipartPart[] {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  if (!boundary) {
+    throw invalidRequestError('Content-Type: multipart/form-data requires a boundary');
+  }
+  const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+
+  const parts: MultipartPart[] = [];
+  let pos = body.indexOf(delimiter);
+  while (pos !== -1) {
+    pos += delimiter.length;
+    if (body.subarray(pos, pos + 2).toString() === '--') break;
+
+    const headerEnd = body.indexOf('\r\n\r\n', pos);
+    const next = body.indexOf(Buffer.concat([Buffer.from('\r\n'), delimiter]), headerEnd);
+    if (headerEnd === -1 || next === -1) {
+      throw invalidRequestError('Malformed multipart/form-data body');
+    }
+
+    const headers = body.subarray(pos, headerEnd).toString('utf-8');
+    const disposition = headers.match(/content-disposition:[^\r\n]*/i)?.[0] || '';
+    parts.push({
+      name: disposition.match(/\bname="([^"]*)"/i)?.[1] || '',
+      filename: disposition.match(/\bfilename="([^"]*)"/i)?.[1],
+      contentType: headers.match(/content-type:\s*([^\r\n;]+)/i)?.[1].trim(),
+      data: body.subarray(headerEnd + 4, next),
+    });
+    pos = next + 2;
+  }
+  return parts;
+}
+
+// Whether a file can be read as a plain-text document
+function isTextType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || mimeType === 'application/json' || mimeType === 'application/xml';
+}
+
+// Files API backed by a local directory: each file is stored as <id> with
+// its metadata in <id>.json. Messages reference files by id in document and
+// image blocks, which are swapped for the file contents before conversion.
+export class FileStore {
+  private dir: string;
+  private maxFileSize: number;
+  private files = new Map<string, FileMetadata>();
+
+  constructor(config: Config) {
+    this.dir = path.resolve(config.files?.dir || DEFAULT_FILES_DIR);
+    this.maxFileSize = config.files?.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  }
+
+  get maxUploadSize(): number {
+    return this.maxFileSize;
+  }
+
+  // Load the metadata of previously uploaded files
+  start(): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      const metadata = JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf-8')) as FileMetadata;
+      this.files.set(metadata.id, metadata);
+    }
+  }
+
+  // Store the "file" part of an upload
+  upload(body: Buffer, contentType: string | undefined): FileMetadata {
+    if (!contentType?.startsWith('multipart/form-data') || !Buffer.isBuffer(body)) {
+      throw invalidRequestError('Files must be uploaded as multipart/form-data');
+    }
+    const part = parseMultipart(body, contentType).find(p => p.name === 'file');
+    if (!part || part.filename === undefined) {
+      throw invalidRequestError('file: a file part is required');
+    }
+
+    const filename = path.basename(part.filename) || 'upload';
+    const guessed = MIME_TYPES[path.extname(filename).toLowerCase()];
+    const mimeType = !part.contentType || part.contentType === 'application/octet-stream'
+      ? guessed || 'application/octet-stream'
+      : part.contentType;
+
+    const metadata: FileMetadata = {
+      id: `file_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      type: 'file',
+      filename,
+      mime_type: mimeType,
+      size_bytes: part.data.length,
+      created_at: new Date().toISOString(),
+      downloadable: true,
+    };
+
+    fs.writeFileSync(this.getFilePath(metadata.id), part.data);
+    fs.writeFileSync(this.getFilePath(metadata.id, '.json'), JSON.stringify(metadata, null, 2));
+    this.files.set(metadata.id, metadata);
+
+    console.log(chalk.blue('File uploaded:'), chalk.white(metadata.id), chalk.gray(`(${filename}, ${mimeType}, ${part.data.length} bytes)`));
+    return metadata;
+  }
+
+  get(id: string): FileMetadata {
+    const metadata = this.files.get(id);
+    if (!metadata) {
+      throw notFoundError(`File not found: ${id}`);
+    }
+    return metadata;
+  }
+
+  getContentPath(id: string): string {
+    this.get(id);
+    return this.getFilePath(id);
+  }
+
+  // Most recent first, with Anthropic's before_id/after_id cursors
+  list(options: FileListOptions = {}): FileListResponse {
+    const limit = Math.min(Math.max(options.limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    const all = [...this.files.values()].sort((a, b) =>
+      b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id)
+    );
+
+    let page: FileMetadata[];
+    let hasMore: boolean;
+    if (options.beforeId) {
+      const end = all.findIndex(f => f.id === options.beforeId);
+      if (end === -1) throw notFoundError(`File not found: ${options.beforeId}`);
+      const start = Math.max(end - limit, 0);
+      page = all.slice(start, end);
+      hasMore = start > 0;
+    } else {
+      const start = options.afterId ? all.findIndex(f => f.id === options.afterId) + 1 : 0;
+      if (options.afterId && start === 0) throw notFoundError(`File not found: ${options.afterId}`);
+      page = all.slice(start, start + limit);
+      hasMore = start + limit < all.length;
+    }
+
+    return {
+      data: page,
+      has_more: hasMore,
+      first_id: page[0]?.id ?? null,
+      last_id: page[page.length - 1]?.id ?? null,
+    };
+  }
+
+  delete(id: string): { id: string; type: 'file_deleted' } {
+    this.get(id);
+    for (const suffix of ['', '.json']) {
+      fs.rmSync(this.getFilePath(id, suffix), { force: true });
+    }
+    this.files.delete(id);
+    return { id, type: 'file_deleted' };
+  }
+
+  // Replace file_id sources in document and image blocks (tool results
+  // included) with the stored contents. Returns the request unchanged when it
+  // references no files, otherwise a copy.
+  resolveFileReferences<T extends { messages: ClaudeMessage[] }>(request: T): T {
+    const hasFileSource = (block: ClaudeContentBlock): boolean =>
+      ((block.type === 'document' || block.type === 'image') && block.source.type === 'file') ||
+      (block.type === 'tool_result' && typeof block.content !== 'string' && block.content.some(hasFileSource));
+    if (!request.messages.some(msg => typeof msg.content !== 'string' && msg.content.some(hasFileSource))) {
+      return request;
+    }
+
+    const resolveBlock = (block: ClaudeContentBlock): ClaudeContentBlock => {
+      if (!hasFileSource(block)) {
+        return block;
+      }
+      if (block.type === 'document') {
+        return this.resolveDocument(block);
+      }
+      if (block.type === 'image') {
+        return this.resolveImage(block);
+      }
+      if (block.type === 'tool_result' && typeof block.content !== 'string') {
+        return { ...block, content: block.content.map(b => (b.type === 'image' ? this.resolveImage(b) : b)) };
+      }
+      return block;
+    };
+
+    const messages = request.messages.map(msg =>
+      typeof msg.content === 'string' ? msg : { ...msg, content: msg.content.map(resolveBlock) }
+    );
+    return { ...request, messages };
+  }
+
+  private resolveDocument(block: ClaudeDocumentBlock): ClaudeDocumentBlock {
+    const { metadata, data } = this.read(block.source.file_id);
+    if (metadata.mime_type !== 'application/pdf' && !isTextType(metadata.mime_type)) {
+      throw invalidRequestError(`File ${metadata.id} (${metadata.mime_type}) cannot be used as a document`);
+    }
+    return {
+      ...block,
+      title: block.title ?? metadata.filename,
+      source: {
+        type: 'base64',
+        // JSON and XML are read like any other text document
+        media_type: isTextType(metadata.mime_type) && !metadata.mime_type.startsWith('text/') ? 'text/plain' : metadata.mime_type,
+        data: data.toString('base64'),
+      },
+    };
+  }
+
+  private resolveImage(block: ClaudeImageBlock): ClaudeImageBlock {
+    if (block.source.type !== 'file') {
+      return block;
+    }
+    const { metadata, data } = this.read(block.source.file_id);
+    if (!metadata.mime_type.startsWith('image/')) {
+      throw invalidRequestError(`File ${metadata.id} (${metadata.mime_type}) is not an image`);
+    }
+    return { ...block, source: { type: 'base64', media_type: metadata.mime_type, data: data.toString('base64') } };
+  }
+
+  private read(id: string | undefined): { metadata: FileMetadata; data: Buffer } {
+    if (!id) {
+      throw invalidRequestError('source.file_id: required for file sources');
+    }
+    const metadata = this.get(id);
+    return { metadata, data: fs.readFileSync(this.getFilePath(id)) };
+  }
+
+  private getFilePath(id: string, suffix = ''): string {
+    // Ids come from URLs, so keep them inside the storage directory
+    return path.join(this.dir, `${path.basename(id)}${suffix}`);
+  }
+}
@@ -0,0 +1,154 @@
+import chalk from 'chalk';
+import { BackendInventory, BackendStatus, Config, EndpointStatus, Provider, StatusResponse } from './types';
+import { ProviderRegistry } from './providers';
+import { normalizeRouteEntry, parseRouteTarget } from './config';
+
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+const DEFAULT_TIMEOUT_MS = 5 * 1000;
+
+interface ProbeResult {
+  reachable: boolean;
+  latencyMs: number;
+  inventory?: BackendInventory;
+  error?: string;
+  checkedAt: string;
+}
+
+// Backends that requests can actually reach: the active provider and every
+// rule and route target and fallback
+function getRoutableProviders(config: Config): Set<Provider> {
+  const providers = new Set<Provider>([config.provider]);
+  for (const entry of [...(config.rules || []), ...Object.values(config.routes || {})]) {
+    const routeConfig = normalizeRouteEntry(entry);
+    for (const target of [routeConfig.target, ...(routeConfig.fallbacks || [])]) {
+      providers.add(parseRouteTarget(config, target).provider);
+    }
+  }
+  return providers;
+}
+
+// Periodically probes every instance of the routable backends (plus any
+// openaiCompatible entry), marks unreachable ones down for the load balancer,
+// and reports the results for /status and /health.
+export class HealthMonitor {
+  private config: Config;
+  private providers: ProviderRegistry;
+  private interval: number;
+  private timeout: number;
+  private results = new Map<string, ProbeResult>();
+  private firstProbe: Promise<void> = Promise.resolve();
+
+  constructor(config: Config, providers: ProviderRegistry) {
+    this.config = config;
+    this.providers = providers;
+    this.interval = config.healthCheck?.interval ?? DEFAULT_INTERVAL_MS;
+    this.timeout = config.healthCheck?.timeout ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  start(): void {
+    if (this.interval <= 0) {
+      return;
+    }
+    this.firstProbe = this.probeAll();
+    setInterval(() => this.probeAll(), this.interval).unref();
+  }
+
+  async getStatus(): Promise<StatusResponse> {
+    await this.firstProbe;
+
+    const routable = getRoutableProviders(this.config);
+    const backends: BackendStatus[] = [];
+    for (const [name, provider] of this.providers) {
+      const endpoints: EndpointStatus[] = provider.getEndpointStats().map(stats => {
+        const result = this.results.get(`${name} ${stats.url}`);
+        return {
+          url: stats.url,
+          reachable: result?.reachable,
+          latencyMs: result?.latencyMs,
+          models: result?.inventory?.models,
+          loadedModels: result?.inventory?.loadedModels,
+          error: result?.error,
+          checkedAt: result?.checkedAt,
+          inFlight: stats.outstanding,
+          ejected: stats.ejected,
+        };
+      });
+      backends.push({ name, routable: routable.has(name), endpoints });
+    }
+
+    // Unprobed endpoints (health checks disabled) count as up
+    const up = backends
+      .filter(backend => backend.routable)
+      .map(backend => backend.endpoints.some(e => e.reachable !== false));
+    const status = up.every(Boolean) ? 'ok' : up.some(Boolean) ? 'degraded' : 'unavailable';
+
+    return { status, provider: this.config.provider, backends };
+  }
+
+  // Models reported by the reachable instances of each backend
+  async getBackendModels(): Promise<Map<Provider, string[]>> {
+    // Without periodic checks there are no results to read, so probe now
+    await (this.interval > 0 ? this.firstProbe : this.probeAll());
+
+    const models = new Map<Provider, string[]>();
+    for (const [name, provider] of this.providers) {
+      const names = new Set<string>();
+      for (const url of provider.endpoints) {
+        for (const model of this.results.get(`${name} ${url}`)?.inventory?.models || []) {
+          names.add(model);
+        }
+      }
+      if (names.size > 0) {
+        models.set(name, [...names]);
+      }
+    }
+    return models;
+  }
+
+  private shouldProbe(name: Provider, routable: Set<Provider>): boolean {
+    return routable.has(name) || Boolean(this.config.openaiCompatible?.some(entry => entry.name === name));
+  }
+
+  private async probeAll(): Promise<void> {
+    const routable = getRoutableProviders(this.config);
+    const probes: Promise<void>[] = [];
+    for (const [name, provider] of this.providers) {
+      if (!this.shouldProbe(name, routable)) {
+        continue;
+      }
+      for (const url of provider.endpoints) {
+        probes.push(this.probe(name, url));
+      }
+    }
+    await Promise.all(probes);
+  }
+
+  private async probe(name: Provider, url: string): Promise<void> {
+    const provider = this.providers.get(name)!;
+    const key = `${name} ${url}`;
+    const previous = this.results.get(key);
+    const startedAt = Date.now();
+
+    let result: ProbeResult;
+    try {
+      const inventory = await provider.probe(url, AbortSignal.timeout(this.timeout));
+      result = { reachable: true, latencyMs: Date.now() - startedAt, inventory, checkedAt: new Date().toISOString() };
+    } catch (error) {
+      result = {
+        reachable: false,
+        latencyMs: Date.now() - startedAt,
+        error: (error as Error).message,
+        checkedAt: new Date().toISOString(),
+      };
+    }
+
+    this.results.set(key, result);
+    provider.setEndpointDown(url, !result.reachable);
+
+    if (!result.reachable && previous?.reachable !== false) {
+      console.log(chalk.red(`  Health check failed for ${name} at ${url}:`), chalk.gray(result.error));
+    } else if (result.reachable && previous?.reachable === false) {
+      console.log(chalk.green(`  ${name} at ${url} is reachable again`));
+    }
+  }
+}
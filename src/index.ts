@@ -12,13 +12,52 @@ import {
   setProviderUrl,
   setProviderModel,
   setModelRouting,
+  setOllamaApi,
+  getOllamaApi,
+  setRoute,
+  parseRouteTarget,
+  explainRoute,
+  isProvider,
+  listProviders,
+  getProviderConfig,
   DEFAULT_CONFIG,
 } from './config';
 import { startServer } from './server';
-import { Provider } from './types';
+import { describeRule, sortRules } from './rules';
+import { Config, Provider } from './types';
 
 const program = new Command();
 
+// Load the config, exiting with an error when it cannot be used
+function readConfig(): Config {
+  try {
+    return loadConfig();
+  } catch (error) {
+    console.error(chalk.red(`Invalid config: ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+// Exit with an error unless the name is a configured provider
+function validateProvider(config: Config, provider: string): Provider {
+  if (!isProvider(config, provider)) {
+    console.error(chalk.red(`Invalid provider. Use one of: ${listProviders(config).join(', ')}`));
+    process.exit(1);
+  }
+  return provider;
+}
+
+function getProviderLabel(provider: Provider): string {
+  switch (provider) {
+    case 'lmstudio':
+      return 'LM Studio';
+    case 'ollama':
+      return 'Ollama';
+    default:
+      return provider;
+  }
+}
+
 program
   .name('sona-router')
   .description('Route Claude Code requests to local LLM providers (LM Studio, Ollama)')
@@ -29,28 +68,25 @@ program
   .command('start')
   .description('Start the router server')
   .option('-p, --port <port>', 'Port to listen on')
-  .option('--provider <provider>', 'Provider to use (lmstudio or ollama)')
+  .option('--provider <provider>', 'Provider to use (lmstudio, ollama or a configured openai-compatible name)')
   .option('--model <model>', 'Model to use')
   .option('--url <url>', 'Provider base URL')
   .action((options) => {
-    const config = loadConfig();
+    const config = readConfig();
 
     // Override config with CLI options
     if (options.port) {
       config.port = parseInt(options.port, 10);
     }
     if (options.provider) {
-      if (options.provider !== 'lmstudio' && options.provider !== 'ollama') {
-        console.error(chalk.red('Invalid provider. Use "lmstudio" or "ollama"'));
-        process.exit(1);
-      }
-      config.provider = options.provider as Provider;
+      validateProvider(config, options.provider);
+      config.provider = options.provider;
     }
     if (options.model) {
-      config[config.provider].model = options.model;
+      getProviderConfig(config, config.provider).model = options.model;
     }
     if (options.url) {
-      config[config.provider].baseUrl = options.url;
+      getProviderConfig(config, config.provider).baseUrl = options.url;
     }
 
     startServer(config);
@@ -79,22 +115,20 @@ program
 program
   .command('config')
   .description('View or modify configuration')
-  .option('--provider <provider>', 'Set provider (lmstudio or ollama)')
+  .option('--provider <provider>', 'Set provider (lmstudio, ollama or a configured openai-compatible name)')
   .option('--port <port>', 'Set server port')
   .option('--lmstudio-url <url>', 'Set LM Studio base URL')
   .option('--lmstudio-model <model>', 'Set LM Studio model')
   .option('--ollama-url <url>', 'Set Ollama base URL')
   .option('--ollama-model <model>', 'Set Ollama model')
+  .option('--ollama-api <api>', 'Set Ollama API (openai or native)')
   .action((options) => {
-    let config = loadConfig();
+    let config = readConfig();
     let modified = false;
 
     if (options.provider) {
-      if (options.provider !== 'lmstudio' && options.provider !== 'ollama') {
-        console.error(chalk.red('Invalid provider. Use "lmstudio" or "ollama"'));
-        process.exit(1);
-      }
-      config = setProvider(options.provider as Provider);
+      validateProvider(config, options.provider);
+      config = setProvider(options.provider);
       console.log(chalk.green(`Provider set to: ${options.provider}`));
       modified = true;
     }
@@ -129,6 +163,16 @@ program
       modified = true;
     }
 
+    if (options.ollamaApi) {
+      if (options.ollamaApi !== 'openai' && options.ollamaApi !== 'native') {
+        console.error(chalk.red('Invalid Ollama API. Use "openai" or "native"'));
+        process.exit(1);
+      }
+      config = setOllamaApi(options.ollamaApi);
+      console.log(chalk.green(`Ollama API set to: ${options.ollamaApi}`));
+      modified = true;
+    }
+
     if (!modified) {
       // Display current config
       console.log(chalk.bold.cyan('\nCurrent Configuration:'));
@@ -149,12 +193,25 @@ program
       console.log(chalk.bold.yellow('Ollama:'));
       console.log(chalk.cyan('  URL:  '), chalk.white(config.ollama.baseUrl));
       console.log(chalk.cyan('  Model:'), chalk.white(config.ollama.model));
+      console.log(chalk.cyan('  API:  '), chalk.white(getOllamaApi(config.ollama)));
       if (config.ollama.modelRouting && Object.keys(config.ollama.modelRouting).length > 0) {
         console.log(chalk.cyan('  Routes:'));
         for (const [from, to] of Object.entries(config.ollama.modelRouting)) {
           console.log(chalk.gray(`    ${from} → ${to}`));
         }
       }
+      for (const entry of config.openaiCompatible || []) {
+        console.log();
+        console.log(chalk.bold.yellow(`${entry.name} (openai-compatible):`));
+        console.log(chalk.cyan('  URL:  '), chalk.white(entry.baseUrl));
+        console.log(chalk.cyan('  Model:'), chalk.white(entry.model));
+        if (entry.modelRouting && Object.keys(entry.modelRouting).length > 0) {
+          console.log(chalk.cyan('  Routes:'));
+          for (const [from, to] of Object.entries(entry.modelRouting)) {
+            console.log(chalk.gray(`    ${from} → ${to}`));
+          }
+        }
+      }
       console.log(chalk.gray('─'.repeat(40)));
       console.log(chalk.gray('\nUse "sona-router routes" to see all model routing.'));
     }
@@ -163,14 +220,11 @@ program
 // Use command (shortcut for switching providers)
 program
   .command('use <provider>')
-  .description('Switch to a provider (lmstudio or ollama)')
+  .description('Switch to a provider (lmstudio, ollama or a configured openai-compatible name)')
   .action((provider: string) => {
-    if (provider !== 'lmstudio' && provider !== 'ollama') {
-      console.error(chalk.red('Invalid provider. Use "lmstudio" or "ollama"'));
-      process.exit(1);
-    }
+    validateProvider(readConfig(), provider);
 
-    setProvider(provider as Provider);
+    setProvider(provider);
     console.log(chalk.green(`Switched to ${provider}`));
   });
 
@@ -180,13 +234,10 @@ program
   .description('Set the model for the current provider')
   .option('--provider <provider>', 'Specify which provider to set the model for')
   .action((model: string, options) => {
-    const config = loadConfig();
-    const provider = (options.provider as Provider) || config.provider;
+    const config = readConfig();
+    const provider = options.provider || config.provider;
 
-    if (provider !== 'lmstudio' && provider !== 'ollama') {
-      console.error(chalk.red('Invalid provider. Use "lmstudio" or "ollama"'));
-      process.exit(1);
-    }
+    validateProvider(config, provider);
 
     setProviderModel(provider, model);
     console.log(chalk.green(`Model for ${provider} set to: ${model}`));
@@ -194,18 +245,45 @@ program
 
 // Route command (set model routing)
 program
-  .command('route <claude-model> <local-model>')
-  .description('Map a Claude model to a local model')
+  .command('route <claude-model> <local-model> [fallbacks...]')
+  .description('Map a Claude model to a local model (use provider/model to target any backend), optionally followed by fallback targets')
   .option('--provider <provider>', 'Specify which provider to set the route for')
-  .action((claudeModel: string, localModel: string, options) => {
-    const config = loadConfig();
-    const provider = (options.provider as Provider) || config.provider;
+  .option('--vision', 'Mark a provider/model route as able to handle images')
+  .action((claudeModel: string, localModel: string, fallbacks: string[], options) => {
+    const config = readConfig();
 
-    if (provider !== 'lmstudio' && provider !== 'ollama') {
-      console.error(chalk.red('Invalid provider. Use "lmstudio" or "ollama"'));
+    // "provider/model" targets and fallback chains go into the cross-provider routing table
+    const target = parseRouteTarget(config, localModel);
+    if (!options.provider && (target.model !== localModel || fallbacks.length > 0)) {
+      setRoute(claudeModel, localModel, Boolean(options.vision), fallbacks);
+      console.log(chalk.green('Cross-provider route added:'));
+      console.log(
+        chalk.cyan(`  ${claudeModel}`),
+        chalk.gray('→'),
+        chalk.white(`${target.provider}/${target.model}`),
+        options.vision ? chalk.magenta('(vision)') : ''
+      );
+      for (const fallback of fallbacks) {
+        const fallbackTarget = parseRouteTarget(config, fallback);
+        console.log(chalk.gray('    then'), chalk.white(`${fallbackTarget.provider}/${fallbackTarget.model}`));
+      }
+      return;
+    }
+
+    if (fallbacks.length > 0) {
+      console.error(chalk.red('Fallbacks cannot be combined with --provider'));
+      process.exit(1);
+    }
+
+    if (options.vision) {
+      console.error(chalk.red('--vision requires a provider/model target'));
       process.exit(1);
     }
 
+    const provider = options.provider || config.provider;
+
+    validateProvider(config, provider);
+
     setModelRouting(provider, claudeModel, localModel);
     console.log(chalk.green(`Route added for ${provider}:`));
     console.log(chalk.cyan(`  ${claudeModel}`), chalk.gray('→'), chalk.white(localModel));
@@ -216,15 +294,47 @@ program
   .command('routes')
   .description('List all model routing mappings')
   .option('--provider <provider>', 'Show routes for specific provider only')
+  .option('--explain <claude-model>', 'Show which rule or route a request for this model would use')
+  .option('--tools', 'With --explain: the request has tools')
+  .option('--images', 'With --explain: the request has images')
+  .option('--thinking', 'With --explain: the request enables thinking')
+  .option('--prompt-tokens <n>', 'With --explain: estimated prompt size', parseInt)
+  .option('--beta <flags>', 'With --explain: comma-separated anthropic-beta flags')
   .action((options) => {
-    const config = loadConfig();
+    const config = readConfig();
+
+    if (options.explain) {
+      const explanation = explainRoute(config, options.explain, {
+        tools: Boolean(options.tools),
+        images: Boolean(options.images),
+        thinking: Boolean(options.thinking),
+        promptTokens: options.promptTokens,
+        betaFeatures: options.beta ? options.beta.split(',').map((f: string) => f.trim()) : [],
+      });
+      const { route } = explanation;
+
+      for (const { rule, unmet } of explanation.skipped) {
+        console.log(chalk.gray(`  Skipped ${rule}: needs ${unmet.join(', ')}`));
+      }
+      console.log(
+        chalk.cyan(`  ${options.explain}`),
+        chalk.gray('→'),
+        chalk.green(route.provider) + chalk.gray('/') + chalk.white(route.model),
+        route.vision ? chalk.magenta('(vision)') : ''
+      );
+      console.log(chalk.gray(`    via ${explanation.source}`));
+      for (const fallback of route.fallbacks || []) {
+        console.log(chalk.gray('    then'), chalk.green(fallback.provider) + chalk.gray('/') + chalk.white(fallback.model));
+      }
+      return;
+    }
 
     const showRoutes = (providerName: Provider) => {
-      const providerConfig = config[providerName];
+      const providerConfig = getProviderConfig(config, providerName);
       const routes = providerConfig.modelRouting || {};
       const routeEntries = Object.entries(routes);
 
-      console.log(chalk.bold.yellow(`\n${providerName === 'lmstudio' ? 'LM Studio' : 'Ollama'} Model Routes:`));
+      console.log(chalk.bold.yellow(`\n${getProviderLabel(providerName)} Model Routes:`));
 
       if (routeEntries.length === 0) {
         console.log(chalk.gray('  No routes configured (using default model)'));
@@ -236,15 +346,47 @@ program
       console.log(chalk.gray(`  Default model: ${providerConfig.model}`));
     };
 
-    if (options.provider) {
-      if (options.provider !== 'lmstudio' && options.provider !== 'ollama') {
-        console.error(chalk.red('Invalid provider. Use "lmstudio" or "ollama"'));
-        process.exit(1);
+    // Effective routing across all backends, as resolved for each Claude model
+    const showRoutingTable = () => {
+      const claudeModels = new Set([
+        ...Object.keys(config.routes || {}),
+        ...Object.keys(getProviderConfig(config, config.provider).modelRouting || {}),
+      ]);
+
+      if (config.rules && config.rules.length > 0) {
+        console.log(chalk.bold.yellow('\nRules (in the order they are tried):'));
+        for (const { rule, index } of sortRules(config.rules)) {
+          const targets = [rule.target, ...(rule.fallbacks || [])].join(chalk.gray(', then '));
+          console.log(chalk.cyan(`  ${describeRule(rule, index)}`), chalk.gray('→'), chalk.white(targets));
+        }
       }
-      showRoutes(options.provider as Provider);
+
+      console.log(chalk.bold.yellow('\nRouting Table:'));
+      for (const claudeModel of claudeModels) {
+        const explanation = explainRoute(config, claudeModel);
+        const route = explanation.route;
+        const source = explanation.source.startsWith('routes:') ? '' : chalk.gray(` (${explanation.source})`);
+        const vision = route.vision ? chalk.magenta(' (vision)') : '';
+        console.log(
+          chalk.cyan(`  ${claudeModel}`),
+          chalk.gray('→'),
+          chalk.green(route.provider) + chalk.gray('/') + chalk.white(route.model) + vision + source
+        );
+        for (const fallback of route.fallbacks || []) {
+          console.log(chalk.gray('    then'), chalk.green(fallback.provider) + chalk.gray('/') + chalk.white(fallback.model));
+        }
+      }
+      console.log(chalk.gray(`  Default: ${config.provider}/${getProviderConfig(config, config.provider).model}`));
+    };
+
+    if (options.provider) {
+      validateProvider(config, options.provider);
+      showRoutes(options.provider);
     } else {
-      showRoutes('lmstudio');
-      showRoutes('ollama');
+      showRoutingTable();
+      for (const provider of listProviders(config)) {
+        showRoutes(provider);
+      }
     }
     console.log();
   });
@@ -0,0 +1,54 @@
+import { Response } from 'express';
+import { ClaudeUsage, SseSink } from './types';
+
+// The fields of Messages stream events that other API formats are built from
+export interface MessageStreamEvent {
+  message?: { id: string; model: string; usage?: ClaudeUsage };
+  index?: number;
+  content_block?: { type: string; id?: string; name?: string };
+  delta?: {
+    type?: string;
+    text?: string;
+    thinking?: string;
+    partial_json?: string;
+    stop_reason?: string | null;
+    stop_sequence?: string | null;
+  };
+  usage?: Partial<ClaudeUsage>;
+  error?: { type: string; message: string };
+}
+
+// Send the event-stream headers, unless an earlier event already did
+function startEventStream(res: Response): void {
+  if (!res.headersSent) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+  }
+}
+
+// A sink that writes Messages events to the client as they are
+export function createSseSink(res: Response): SseSink {
+  return {
+    send: (event, data) => {
+      startEventStream(res);
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    end: () => res.end(),
+  };
+}
+
+// A sink that hands each Messages event to `handle` instead of writing it,
+// so an endpoint can answer in another streaming format on the response
+export function rewriteMessageStream(
+  res: Response,
+  handle: (event: string, data: MessageStreamEvent) => void
+): SseSink {
+  return {
+    send: (event, data) => {
+      startEventStream(res);
+      handle(event, data as MessageStreamEvent);
+    },
+    end: () => res.end(),
+  };
+}
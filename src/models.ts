@@ -0,0 +1,125 @@
+import { Config, ModelInfo, ModelListResponse, OpenAIModelListResponse, Provider } from './types';
+import { getProviderConfig, parseRouteTarget, resolveModel } from './config';
+import { notFoundError } from './errors';
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 1000;
+
+// Routed models have no release date of their own unless the id carries one
+const STARTED_AT = new Date().toISOString();
+const DATE_SUFFIX = /-(\d{4})(\d{2})(\d{2})$/;
+
+export interface ModelListOptions {
+  limit?: number;
+  beforeId?: string;
+  afterId?: string;
+}
+
+// "claude-3-5-sonnet-20241022" -> "Claude 3.5 Sonnet"
+function formatClaudeName(id: string): string {
+  return id
+    .replace(DATE_SUFFIX, '')
+    .replace(/-(\d)-(\d)(?=-|$)/g, '-$1.$2')
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function createdAt(id: string): string {
+  const match = id.match(DATE_SUFFIX);
+  return match ? new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00Z`).toISOString() : STARTED_AT;
+}
+
+// A Claude model id the routing configuration maps, named after its local target
+function describeRoutedModel(config: Config, id: string): ModelInfo {
+  const route = resolveModel(config, id);
+  return {
+    type: 'model',
+    id,
+    display_name: `${formatClaudeName(id)} (${route.provider}/${route.model})`,
+    created_at: createdAt(id),
+  };
+}
+
+function describeBackendModel(provider: Provider, model: string): ModelInfo {
+  return {
+    type: 'model',
+    id: `${provider}/${model}`,
+    display_name: `${model} (${provider})`,
+    created_at: STARTED_AT,
+  };
+}
+
+// Claude model ids with a route: the cross-provider routes, then the active
+// provider's modelRouting, then (optionally) every model the backends report
+export function listModels(config: Config, backendModels: Map<Provider, string[]> = new Map()): ModelInfo[] {
+  const ids = new Set([
+    ...Object.keys(config.routes || {}),
+    ...Object.keys(getProviderConfig(config, config.provider).modelRouting || {}),
+  ]);
+  const models = [...ids].map(id => describeRoutedModel(config, id));
+
+  for (const [provider, names] of backendModels) {
+    for (const name of names) {
+      models.push(describeBackendModel(provider, name));
+    }
+  }
+  return models;
+}
+
+// Look up a model the way requests are routed: listed ids, dated versions of
+// them (claude-sonnet-4-20250514 matches claude-sonnet-4) and provider/model ids
+export function getModel(config: Config, id: string, models: ModelInfo[]): ModelInfo {
+  const listed = models.find(model => model.id === id);
+  if (listed) {
+    return listed;
+  }
+  if (models.some(model => !model.id.includes('/') && id.startsWith(model.id))) {
+    return describeRoutedModel(config, id);
+  }
+  const direct = parseRouteTarget(config, id);
+  if (direct.model !== id) {
+    return describeBackendModel(direct.provider, direct.model);
+  }
+  throw notFoundError(`model: ${id}`);
+}
+
+// Page through a model list with Anthropic's before_id/after_id cursors
+export function toModelListResponse(models: ModelInfo[], options: ModelListOptions = {}): ModelListResponse {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+
+  let page: ModelInfo[];
+  let hasMore: boolean;
+  if (options.beforeId) {
+    const end = models.findIndex(model => model.id === options.beforeId);
+    if (end === -1) throw notFoundError(`model: ${options.beforeId}`);
+    const start = Math.max(end - limit, 0);
+    page = models.slice(start, end);
+    hasMore = start > 0;
+  } else {
+    const start = options.afterId ? models.findIndex(model => model.id === options.afterId) + 1 : 0;
+    if (options.afterId && start === 0) throw notFoundError(`model: ${options.afterId}`);
+    page = models.slice(start, start + limit);
+    hasMore = start + limit < models.length;
+  }
+
+  return {
+    data: page,
+    has_more: hasMore,
+    first_id: page[0]?.id ?? null,
+    last_id: page[page.length - 1]?.id ?? null,
+  };
+}
+
+// The same models in OpenAI's list format, for OpenAI SDK clients
+export function toOpenAIModelList(models: ModelInfo[]): OpenAIModelListResponse {
+  return {
+    object: 'list',
+    data: models.map(model => ({
+      id: model.id,
+      object: 'model',
+      created: Math.floor(new Date(model.created_at).getTime() / 1000),
+      owned_by: 'sona-router',
+    })),
+  };
+}
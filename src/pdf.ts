@@ -0,0 +1,717 @@
+import * as zlib from 'zlib';
+import { invalidRequestError } from './errors';
+
+// Minimal PDF reader for pulling text (and embedded JPEG scans) out of PDFs
+// without a native dependency. It scans the file for objects rather than
+// trusting the xref table, reads compressed object streams, follows the page
+// tree, and decodes text with each font's ToUnicode CMap when it has one.
+// Encrypted PDFs and exotic filters yield no text. Inflated stream data is
+// capped per document, so a small compressed PDF cannot exhaust memory.
+
+interface PdfName { kind: 'name'; name: string }
+interface PdfRef { kind: 'ref'; num: number }
+interface PdfString { kind: 'string'; bytes: string }
+interface PdfDict { kind: 'dict'; entries: Record<string, PdfValue> }
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfString | PdfDict | PdfValue[];
+
+type Token =
+  | { type: 'num'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'str'; value: string }
+  | { type: 'kw'; value: string }
+  | { type: 'punct'; value: '<<' | '>>' | '[' | ']' };
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Buffer;
+}
+
+export interface ParsePdfOptions {
+  // Total bytes the document's compressed streams may inflate to
+  maxInflatedSize: number;
+}
+
+export interface PdfPage {
+  text: string;
+  // Embedded JPEG images, which for scanned documents are the pages themselves
+  images: Buffer[];
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+const MAX_FORM_DEPTH = 8;
+// TJ adjustments (thousandths of an em) wider than kerning, which stays under ~100
+const WORD_GAP = 150;
+
+function isName(value: PdfValue | undefined, name?: string): value is PdfName {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'name' &&
+    (name === undefined || value.name === name);
+}
+
+function isDict(value: PdfValue | undefined): value is PdfDict {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'dict';
+}
+
+function isString(value: PdfValue | undefined): value is PdfString {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'string';
+}
+
+// Tokenizer over latin1 text, where every character is one byte of the file
+class Lexer {
+  pos: number;
+
+  constructor(private src: string, start = 0, private end = src.length) {
+    this.pos = start;
+  }
+
+  next(): Token | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.end) {
+      return undefined;
+    }
+
+    const ch = this.src[this.pos];
+    if (ch === '<' && this.src[this.pos + 1] === '<') {
+      this.pos += 2;
+      return { type: 'punct', value: '<<' };
+    }
+    if (ch === '>' && this.src[this.pos + 1] === '>') {
+      this.pos += 2;
+      return { type: 'punct', value: '>>' };
+    }
+    if (ch === '[' || ch === ']') {
+      this.pos++;
+      return { type: 'punct', value: ch };
+    }
+    if (ch === '(') {
+      return { type: 'str', value: this.readLiteralString() };
+    }
+    if (ch === '<') {
+      return { type: 'str', value: this.readHexString() };
+    }
+    if (ch === '/') {
+      this.pos++;
+      const name = this.readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+      return { type: 'name', value: name };
+    }
+
+    const word = this.readRegular();
+    if (word.length === 0) {
+      // Stray delimiter such as ')' or '{'
+      this.pos++;
+      return this.next();
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return { type: 'num', value: parseFloat(word) };
+    }
+    return { type: 'kw', value: word };
+  }
+
+  // Skip an inline image's binary data, which follows the ID operator up to EI
+  skipInlineImage(): void {
+    const match = /\sEI(?=[\s]|$)/g;
+    match.lastIndex = this.pos;
+    const found = match.exec(this.src);
+    this.pos = found && found.index < this.end ? found.index + found[0].length : this.end;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.end) {
+      const code = this.src.charCodeAt(this.pos);
+      if (WHITESPACE.has(code)) {
+        this.pos++;
+      } else if (code === 0x25) {
+        // Comment to end of line
+        while (this.pos < this.end && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (this.pos < this.end) {
+      const ch = this.src[this.pos];
+      if (WHITESPACE.has(ch.charCodeAt(0)) || DELIMITERS.has(ch)) {
+        break;
+      }
+      this.pos++;
+    }
+    return this.src.substring(start, this.pos);
+  }
+
+  private readLiteralString(): string {
+    let depth = 0;
+    let out = '';
+    this.pos++;
+    while (this.pos < this.end) {
+      const ch = this.src[this.pos++];
+      if (ch === '\\') {
+        const esc = this.src[this.pos++];
+        switch (esc) {
+          case 'n': out += '\n'; break;
+          case 'r': out += '\r'; break;
+          case 't': out += '\t'; break;
+          case 'b': out += '\b'; break;
+          case 'f': out += '\f'; break;
+          case '\r':
+            if (this.src[this.pos] === '\n') this.pos++;
+            break;
+          case '\n':
+            break;
+          default:
+            if (esc >= '0' && esc <= '7') {
+              let octal = esc;
+              while (octal.length < 3 && this.src[this.pos] >= '0' && this.src[this.pos] <= '7') {
+                octal += this.src[this.pos++];
+              }
+              out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            } else {
+              out += esc;
+            }
+        }
+      } else if (ch === '(') {
+        depth++;
+        out += ch;
+      } else if (ch === ')') {
+        if (depth === 0) break;
+        depth--;
+        out += ch;
+      } else {
+        out += ch;
+      }
+    }
+    return out;
+  }
+
+  private readHexString(): string {
+    const close = this.src.indexOf('>', this.pos);
+    const end = close === -1 ? this.end : close;
+    let hex = this.src.substring(this.pos + 1, end).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = end + 1;
+    if (hex.length % 2 === 1) hex += '0';
+    let out = '';
+    for (let i = 0; i < hex.length; i += 2) {
+      out += String.fromCharCode(parseInt(hex.substring(i, i + 2), 16));
+    }
+    return out;
+  }
+}
+
+// Parse a value from a token stream: numbers followed by "gen R" become references
+function parseValue(tokens: Token[], index: { i: number }): PdfValue {
+  const token = tokens[index.i++];
+  if (!token) {
+    return null;
+  }
+
+  switch (token.type) {
+    case 'num': {
+      const gen = tokens[index.i];
+      const r = tokens[index.i + 1];
+      if (gen?.type === 'num' && r?.type === 'kw' && r.value === 'R') {
+        index.i += 2;
+        return { kind: 'ref', num: token.value };
+      }
+      return token.value;
+    }
+    case 'name':
+      return { kind: 'name', name: token.value };
+    case 'str':
+      return { kind: 'string', bytes: token.value };
+    case 'kw':
+      if (token.value === 'true') return true;
+      if (token.value === 'false') return false;
+      return null;
+    case 'punct':
+      if (token.value === '[') {
+        const items: PdfValue[] = [];
+        while (index.i < tokens.length && !(tokens[index.i].type === 'punct' && tokens[index.i].value === ']')) {
+          items.push(parseValue(tokens, index));
+        }
+        index.i++;
+        return items;
+      }
+      if (token.value === '<<') {
+        const entries: Record<string, PdfValue> = {};
+        while (index.i < tokens.length && !(tokens[index.i].type === 'punct' && tokens[index.i].value === '>>')) {
+          const key = tokens[index.i++];
+          if (key.type !== 'name') continue;
+          entries[key.value] = parseValue(tokens, index);
+        }
+        index.i++;
+        return { kind: 'dict', entries };
+      }
+      return null;
+  }
+}
+
+function tokenize(src: string, start = 0, end = src.length): Token[] {
+  const lexer = new Lexer(src, start, end);
+  const tokens: Token[] = [];
+  for (let token = lexer.next(); token; token = lexer.next()) {
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+// ToUnicode CMap: character codes to text, with the code width from its codespace
+interface FontDecoder {
+  codeBytes: number;
+  map: Map<number, string>;
+}
+
+function decodeUtf16(bytes: string): string {
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  }
+  return out;
+}
+
+function bytesToCode(bytes: string): number {
+  let code = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    code = code * 256 + bytes.charCodeAt(i);
+  }
+  return code;
+}
+
+function parseCMap(src: string): FontDecoder {
+  const tokens = tokenize(src);
+  const decoder: FontDecoder = { codeBytes: 1, map: new Map() };
+  let codespaceSeen = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'kw') continue;
+
+    if (token.value === 'begincodespacerange' && !codespaceSeen) {
+      const lo = tokens[i + 1];
+      if (lo?.type === 'str') {
+        decoder.codeBytes = Math.max(lo.value.length, 1);
+        codespaceSeen = true;
+      }
+    } else if (token.value === 'beginbfchar') {
+      for (i++; i + 1 < tokens.length && !(tokens[i].type === 'kw' && tokens[i].value === 'endbfchar'); i += 2) {
+        const src = tokens[i];
+        const dst = tokens[i + 1];
+        if (src.type === 'str' && dst.type === 'str') {
+          decoder.map.set(bytesToCode(src.value), decodeUtf16(dst.value));
+        }
+      }
+    } else if (token.value === 'beginbfrange') {
+      for (i++; i + 2 < tokens.length && !(tokens[i].type === 'kw' && tokens[i].value === 'endbfrange');) {
+        const lo = tokens[i];
+        const hi = tokens[i + 1];
+        if (lo.type !== 'str' || hi.type !== 'str') {
+          i++;
+          continue;
+        }
+        const start = bytesToCode(lo.value);
+        const end = Math.min(bytesToCode(hi.value), start + 0xffff);
+        const dst = tokens[i + 2];
+        if (dst.type === 'str') {
+          // Consecutive codes map to consecutive characters
+          const base = decodeUtf16(dst.value);
+          const last = base.charCodeAt(base.length - 1);
+          for (let code = start; code <= end; code++) {
+            decoder.map.set(code, base.slice(0, -1) + String.fromCharCode(last + code - start));
+          }
+          i += 3;
+        } else if (dst.type === 'punct' && dst.value === '[') {
+          let j = i + 3;
+          for (let code = start; j < tokens.length && tokens[j].type === 'str'; code++, j++) {
+            decoder.map.set(code, decodeUtf16((tokens[j] as { value: string }).value));
+          }
+          i = j + 1;
+        } else {
+          i += 3;
+        }
+      }
+    }
+  }
+  return decoder;
+}
+
+function decodeText(bytes: string, font: FontDecoder | undefined): string {
+  if (!font) {
+    // Simple fonts without a CMap: close enough to WinAnsi for plain text
+    return bytes;
+  }
+  let out = '';
+  for (let i = 0; i + font.codeBytes <= bytes.length; i += font.codeBytes) {
+    const code = bytesToCode(bytes.substring(i, i + font.codeBytes));
+    out += font.map.get(code) ?? (font.codeBytes === 1 ? String.fromCharCode(code) : '');
+  }
+  return out;
+}
+
+class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+  private fontCache = new Map<number, FontDecoder | undefined>();
+  // What is left of the inflated size budget
+  private inflateBudget: number;
+
+  constructor(private src: string, private maxInflatedSize: number) {
+    this.inflateBudget = maxInflatedSize;
+    this.scanObjects();
+    this.expandObjectStreams();
+  }
+
+  get encrypted(): boolean {
+    return /\/Encrypt\s/.test(this.src.slice(-4096)) || /trailer[\s\S]*?\/Encrypt\s/.test(this.src);
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'ref' && depth < 32) {
+      return this.resolve(this.objects.get(value.num)?.value, depth + 1);
+    }
+    return value;
+  }
+
+  get(dict: PdfDict | undefined, key: string): PdfValue | undefined {
+    return dict ? this.resolve(dict.entries[key]) : undefined;
+  }
+
+  getPages(): PdfPage[] {
+    return this.findPageDicts().map(({ page, resources }) => {
+      const images: Buffer[] = [];
+      const contents = this.resolve(page.entries.Contents);
+      const refs = Array.isArray(contents) ? contents : [page.entries.Contents];
+      const content = refs
+        .map(ref => this.getStreamData(ref))
+        .filter((data): data is Buffer => data !== undefined)
+        .map(data => data.toString('latin1'))
+        .join('\n');
+      const text = this.extractText(content, resources, images, 0);
+      return { text: text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim(), images };
+    });
+  }
+
+  private scanObjects(): void {
+    const header = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(this.src)) !== null) {
+      const num = parseInt(match[1], 10);
+      const bodyStart = match.index + match[0].length;
+      const endObj = this.src.indexOf('endobj', bodyStart);
+      const streamAt = this.src.indexOf('stream', bodyStart);
+
+      if (streamAt !== -1 && (endObj === -1 || streamAt < endObj) && this.src.substring(bodyStart, streamAt).trim().endsWith('>>')) {
+        const value = parseValue(tokenize(this.src, bodyStart, streamAt), { i: 0 });
+        let dataStart = streamAt + 'stream'.length;
+        if (this.src[dataStart] === '\r') dataStart++;
+        if (this.src[dataStart] === '\n') dataStart++;
+
+        const length = isDict(value) ? value.entries.Length : undefined;
+        let dataEnd = typeof length === 'number' ? dataStart + length : -1;
+        if (dataEnd < 0 || this.src.substring(dataEnd, dataEnd + 20).indexOf('endstream') === -1) {
+          dataEnd = this.src.indexOf('endstream', dataStart);
+          if (dataEnd === -1) break;
+        }
+
+        this.objects.set(num, { value, stream: Buffer.from(this.src.substring(dataStart, dataEnd), 'latin1') });
+        const after = this.src.indexOf('endobj', dataEnd);
+        header.lastIndex = after === -1 ? dataEnd : after + 'endobj'.length;
+      } else {
+        const bodyEnd = endObj === -1 ? this.src.length : endObj;
+        this.objects.set(num, { value: parseValue(tokenize(this.src, bodyStart, bodyEnd), { i: 0 }) });
+        header.lastIndex = bodyEnd;
+      }
+    }
+  }
+
+  // PDF 1.5+ packs most objects, pages and fonts included, into /ObjStm streams
+  private expandObjectStreams(): void {
+    for (const object of [...this.objects.values()]) {
+      if (!isDict(object.value) || !isName(object.value.entries.Type, 'ObjStm') || !object.stream) {
+        continue;
+      }
+      const data = this.decodeStream(object.value, object.stream);
+      const first = this.resolve(object.value.entries.First);
+      const count = this.resolve(object.value.entries.N);
+      if (!data || typeof first !== 'number' || typeof count !== 'number') {
+        continue;
+      }
+
+      const src = data.toString('latin1');
+      const header = tokenize(src, 0, first);
+      for (let k = 0; k < count; k++) {
+        const num = header[k * 2];
+        const offset = header[k * 2 + 1];
+        const nextOffset = header[k * 2 + 3];
+        if (num?.type !== 'num' || offset?.type !== 'num' || this.objects.has(num.value)) {
+          continue;
+        }
+        const end = nextOffset?.type === 'num' ? first + nextOffset.value : src.length;
+        this.objects.set(num.value, { value: parseValue(tokenize(src, first + offset.value, end), { i: 0 }) });
+      }
+    }
+  }
+
+  private decodeStream(dict: PdfDict, raw: Buffer): Buffer | undefined {
+    const filter = this.resolve(dict.entries.Filter);
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : [])
+      .map(f => this.resolve(f))
+      .filter((f): f is PdfName => isName(f))
+      .map(f => f.name);
+
+    let data = raw;
+    for (const name of filters) {
+      if (name === 'FlateDecode' || name === 'Fl') {
+        const inflated = this.inflate(data);
+        if (!inflated) {
+          return undefined;
+        }
+        data = inflated;
+      } else {
+        // Image codecs and rarely used text filters are left alone
+        return undefined;
+      }
+    }
+    return data;
+  }
+
+  // Inflate within the document's remaining budget; undefined for corrupt data
+  private inflate(data: Buffer): Buffer | undefined {
+    const tooLarge = () => invalidRequestError(`The PDF's compressed streams expand to more than ${this.maxInflatedSize} bytes`);
+    if (this.inflateBudget <= 0) {
+      throw tooLarge();
+    }
+
+    let inflated: Buffer;
+    try {
+      inflated = zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength: this.inflateBudget });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw tooLarge();
+      }
+      return undefined;
+    }
+    this.inflateBudget -= inflated.length;
+    return inflated;
+  }
+
+  private getStreamData(ref: PdfValue | undefined): Buffer | undefined {
+    if (typeof ref !== 'object' || ref === null || Array.isArray(ref) || ref.kind !== 'ref') {
+      return undefined;
+    }
+    const object = this.objects.get(ref.num);
+    if (!object?.stream || !isDict(object.value)) {
+      return undefined;
+    }
+    return this.decodeStream(object.value, object.stream);
+  }
+
+  // Pages in document order from the page tree, with inherited resources;
+  // falls back to every page object if the catalog cannot be followed
+  private findPageDicts(): { page: PdfDict; resources?: PdfDict }[] {
+    const pages: { page: PdfDict; resources?: PdfDict }[] = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = (node: PdfValue | undefined, inherited: PdfDict | undefined, depth: number) => {
+      const dict = this.resolve(node);
+      if (!isDict(dict) || visited.has(dict) || depth > 64) return;
+      visited.add(dict);
+      const resources = this.get(dict, 'Resources');
+      const effective = isDict(resources) ? resources : inherited;
+      if (isName(dict.entries.Type, 'Page')) {
+        pages.push({ page: dict, resources: effective });
+        return;
+      }
+      const kids = this.get(dict, 'Kids');
+      if (Array.isArray(kids)) {
+        for (const kid of kids) walk(kid, effective, depth + 1);
+      }
+    };
+
+    for (const object of this.objects.values()) {
+      if (isDict(object.value) && isName(object.value.entries.Type, 'Catalog')) {
+        walk(object.value.entries.Pages, undefined, 0);
+        break;
+      }
+    }
+
+    if (pages.length === 0) {
+      const numbers = [...this.objects.keys()].sort((a, b) => a - b);
+      for (const num of numbers) {
+        const value = this.objects.get(num)!.value;
+        if (isDict(value) && isName(value.entries.Type, 'Page')) {
+          const resources = this.get(value, 'Resources');
+          pages.push({ page: value, resources: isDict(resources) ? resources : undefined });
+        }
+      }
+    }
+    return pages;
+  }
+
+  private getFont(resources: PdfDict | undefined, name: string): FontDecoder | undefined {
+    const fonts = this.get(resources, 'Font');
+    const ref = isDict(fonts) ? fonts.entries[name] : undefined;
+    const cacheKey = typeof ref === 'object' && ref !== null && !Array.isArray(ref) && ref.kind === 'ref' ? ref.num : undefined;
+    if (cacheKey !== undefined && this.fontCache.has(cacheKey)) {
+      return this.fontCache.get(cacheKey);
+    }
+
+    const font = this.resolve(ref);
+    let decoder: FontDecoder | undefined;
+    if (isDict(font)) {
+      const cmap = this.getStreamData(font.entries.ToUnicode);
+      if (cmap) {
+        decoder = parseCMap(cmap.toString('latin1'));
+      } else if (isName(font.entries.Subtype, 'Type0')) {
+        // Composite font without a CMap: codes are two bytes but unmappable
+        decoder = { codeBytes: 2, map: new Map() };
+      }
+    }
+    if (cacheKey !== undefined) {
+      this.fontCache.set(cacheKey, decoder);
+    }
+    return decoder;
+  }
+
+  // Walk a content stream's text operators, starting new lines where the text
+  // moves down and spaces where TJ adjustments leave a visible gap
+  private extractText(content: string, resources: PdfDict | undefined, images: Buffer[], depth: number): string {
+    const lexer = new Lexer(content);
+    const operands: PdfValue[] = [];
+    let font: FontDecoder | undefined;
+    let out = '';
+    let lastY: number | undefined;
+
+    const newline = () => {
+      if (out.length > 0 && !out.endsWith('\n')) out += '\n';
+    };
+    const space = () => {
+      if (out.length > 0 && !/\s$/.test(out)) out += ' ';
+    };
+
+    for (let token = lexer.next(); token; token = lexer.next()) {
+      if (token.type !== 'kw') {
+        if (token.type === 'punct' && (token.value === '[' || token.value === '<<')) {
+          // Re-read the array or dictionary as one operand
+          const close = token.value === '[' ? ']' : '>>';
+          const inner: Token[] = [token];
+          let nesting = 1;
+          for (let t = lexer.next(); t && nesting > 0; t = nesting > 0 ? lexer.next() : undefined) {
+            inner.push(t);
+            if (t.type === 'punct' && t.value === token.value) nesting++;
+            if (t.type === 'punct' && t.value === close) nesting--;
+          }
+          operands.push(parseValue(inner, { i: 0 }));
+        } else {
+          operands.push(parseValue([token], { i: 0 }));
+        }
+        continue;
+      }
+
+      switch (token.value) {
+        case 'ID':
+          lexer.skipInlineImage();
+          break;
+        case 'Tf':
+          if (isName(operands[0])) font = this.getFont(resources, operands[0].name);
+          break;
+        case 'Td':
+        case 'TD':
+          if (typeof operands[1] === 'number' && Math.abs(operands[1]) > 0.5) {
+            newline();
+          } else if (typeof operands[0] === 'number' && operands[0] > 0) {
+            // Moved along the same line: the next word or column
+            space();
+          }
+          break;
+        case 'T*':
+          newline();
+          break;
+        case 'Tm': {
+          const y = operands[5];
+          if (typeof y === 'number') {
+            if (lastY !== undefined && Math.abs(y - lastY) > 1) {
+              newline();
+            } else {
+              space();
+            }
+            lastY = y;
+          }
+          break;
+        }
+        case 'Tj':
+          if (isString(operands[0])) out += decodeText(operands[0].bytes, font);
+          break;
+        case "'":
+          newline();
+          if (isString(operands[0])) out += decodeText(operands[0].bytes, font);
+          break;
+        case '"':
+          newline();
+          if (isString(operands[2])) out += decodeText(operands[2].bytes, font);
+          break;
+        case 'TJ': {
+          const parts = operands[0];
+          if (Array.isArray(parts)) {
+            for (const part of parts) {
+              if (isString(part)) {
+                out += decodeText(part.bytes, font);
+              } else if (typeof part === 'number' && part < -WORD_GAP) {
+                space();
+              }
+            }
+          }
+          break;
+        }
+        case 'ET':
+          space();
+          break;
+        case 'Do':
+          if (isName(operands[0])) out += this.drawXObject(resources, operands[0].name, images, depth);
+          break;
+      }
+      operands.length = 0;
+    }
+    return out;
+  }
+
+  // Form XObjects carry their own content; JPEG image XObjects are kept as page images
+  private drawXObject(resources: PdfDict | undefined, name: string, images: Buffer[], depth: number): string {
+    const xobjects = this.get(resources, 'XObject');
+    const ref = isDict(xobjects) ? xobjects.entries[name] : undefined;
+    if (typeof ref !== 'object' || ref === null || Array.isArray(ref) || ref.kind !== 'ref') {
+      return '';
+    }
+    const object = this.objects.get(ref.num);
+    if (!object?.stream || !isDict(object.value)) {
+      return '';
+    }
+
+    const subtype = object.value.entries.Subtype;
+    if (isName(subtype, 'Image')) {
+      const filter = this.resolve(object.value.entries.Filter);
+      const filters = Array.isArray(filter) ? filter : [filter];
+      if (filters.length === 1 && isName(this.resolve(filters[0]), 'DCTDecode')) {
+        images.push(object.stream);
+      }
+      return '';
+    }
+    if (isName(subtype, 'Form') && depth < MAX_FORM_DEPTH) {
+      const data = this.decodeStream(object.value, object.stream);
+      const formResources = this.get(object.value, 'Resources');
+      return data ? this.extractText(data.toString('latin1'), isDict(formResources) ? formResources : resources, images, depth + 1) : '';
+    }
+    return '';
+  }
+}
+
+// Text and embedded JPEG images of each page, in page order. Throws an
+// invalid_request_error when the streams inflate past maxInflatedSize.
+export function parsePdf(data: Buffer, options: ParsePdfOptions): PdfPage[] {
+  const doc = new PdfDocument(data.toString('latin1'), options.maxInflatedSize);
+  if (doc.encrypted) {
+    return [];
+  }
+  return doc.getPages();
+}
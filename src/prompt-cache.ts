@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+import {
+  CacheControl,
+  ClaudeContentBlock,
+  ClaudeRequest,
+  ClaudeSystemBlock,
+  ClaudeTool,
+  ClaudeUsage,
+  PromptCacheContext,
+  ResolvedRoute,
+} from './types';
+import { countBlockTokens, countRequestTokens, estimateTokens, renderToolsText } from './tokens';
+
+// Anthropic's cache lifetimes; a hit refreshes the entry
+const TTL_MS = { '5m': 5 * 60 * 1000, '1h': 60 * 60 * 1000 };
+const MAX_CACHE_ENTRIES = 1000;
+
+interface Breakpoint {
+  // Hash of everything up to and including the block marked with cache_control
+  hash: string;
+  // Estimated prompt tokens up to the breakpoint
+  tokens: number;
+  ttl: '5m' | '1h';
+}
+
+// Hash the prompt in Anthropic's cache order (tools, system, messages),
+// recording the running hash and size at every cache_control block
+function findBreakpoints(request: ClaudeRequest, model: string, documentMaxSize?: number): Breakpoint[] {
+  const hash = createHash('sha256').update(model);
+  const breakpoints: Breakpoint[] = [];
+  let tokens = 0;
+
+  const addBlock = (block: ClaudeContentBlock | ClaudeSystemBlock | ClaudeTool, blockTokens: number) => {
+    // cache_control markers move between turns, so they are not part of the prefix
+    hash.update(JSON.stringify(block, (key, value) => (key === 'cache_control' ? undefined : value)));
+    tokens += blockTokens;
+    const cacheControl: CacheControl | undefined = 'cache_control' in block ? block.cache_control : undefined;
+    if (cacheControl) {
+      breakpoints.push({ hash: hash.copy().digest('base64'), tokens, ttl: cacheControl.ttl || '5m' });
+    }
+  };
+
+  for (const tool of request.tools || []) {
+    addBlock(tool, estimateTokens(renderToolsText([tool])));
+  }
+
+  if (typeof request.system === 'string') {
+    hash.update(request.system);
+    tokens += estimateTokens(request.system);
+  } else {
+    for (const block of request.system || []) {
+      addBlock(block, estimateTokens(block.text));
+    }
+  }
+
+  for (const msg of request.messages) {
+    hash.update(`\0${msg.role}\0`);
+    if (typeof msg.content === 'string') {
+      hash.update(msg.content);
+      tokens += estimateTokens(msg.content);
+      continue;
+    }
+    for (const block of msg.content) {
+      addBlock(block, countBlockTokens(block, documentMaxSize));
+    }
+  }
+
+  return breakpoints;
+}
+
+// Cache accounting for one request. Estimated breakpoint sizes are scaled to
+// the backend's real prompt count before usage is split.
+export class PromptCacheSession implements PromptCacheContext {
+  readonly slotKey: string;
+  readonly keepAlive: string;
+  // Records the request's prefixes as cached, once the backend has processed them
+  readonly commit: () => void;
+  private cachedPrefixTokens: number;
+  private warmPrefixTokens: number;
+  private estimatedPromptTokens: number;
+
+  constructor(breakpoints: Breakpoint[], warmPrefixTokens: number, estimatedPromptTokens: number, commit: () => void) {
+    // The first breakpoint normally covers tools and the system prompt, which
+    // every turn of a conversation shares
+    this.slotKey = breakpoints[0].hash;
+    this.keepAlive = breakpoints.some(bp => bp.ttl === '1h') ? '1h' : '5m';
+    this.cachedPrefixTokens = breakpoints[breakpoints.length - 1].tokens;
+    this.warmPrefixTokens = warmPrefixTokens;
+    this.estimatedPromptTokens = estimatedPromptTokens;
+    this.commit = commit;
+  }
+
+  applyUsage(usage: ClaudeUsage, cachedTokens?: number): ClaudeUsage {
+    const promptTokens = usage.input_tokens;
+    const scale = this.estimatedPromptTokens > 0 ? promptTokens / this.estimatedPromptTokens : 1;
+    const cachedPrefix = Math.min(Math.round(this.cachedPrefixTokens * scale), promptTokens);
+
+    // Prefer what the backend says it reused over our own bookkeeping
+    const read = Math.min(cachedTokens ?? Math.round(this.warmPrefixTokens * scale), promptTokens);
+    const creation = Math.max(cachedPrefix - read, 0);
+
+    return {
+      ...usage,
+      input_tokens: Math.max(promptTokens - read - creation, 0),
+      cache_creation_input_tokens: creation,
+      cache_read_input_tokens: read,
+    };
+  }
+}
+
+// Emulates Anthropic prompt caching on top of the backends' KV-cache reuse.
+// Remembers which cache_control prefixes each backend model has seen within
+// their TTL; a repeated prefix counts as a cache read, a new one as a write.
+// Prefixes are only remembered once a request succeeds, so a failed attempt
+// does not make its retry or fallback look like a cache hit.
+export class PromptCache {
+  private entries = new Map<string, number>();
+
+  // documentMaxSize is documents.maxSize, for rendering PDFs while counting
+  begin(route: ResolvedRoute, request: ClaudeRequest, documentMaxSize?: number): PromptCacheSession | undefined {
+    const breakpoints = findBreakpoints(request, route.model, documentMaxSize);
+    if (breakpoints.length === 0) {
+      return undefined;
+    }
+
+    const keys = breakpoints.map(bp => `${route.provider}/${route.model}:${bp.hash}`);
+    const now = Date.now();
+    let warmPrefixTokens = 0;
+    breakpoints.forEach((bp, i) => {
+      const expiresAt = this.entries.get(keys[i]);
+      if (expiresAt !== undefined && expiresAt > now) {
+        warmPrefixTokens = bp.tokens;
+      }
+    });
+
+    const commit = () => this.store(keys.map((key, i) => [key, TTL_MS[breakpoints[i].ttl]]));
+    return new PromptCacheSession(breakpoints, warmPrefixTokens, countRequestTokens(request, route.model, documentMaxSize), commit);
+  }
+
+  private store(entries: [key: string, ttl: number][]): void {
+    const now = Date.now();
+    for (const [key, ttl] of entries) {
+      // Re-insert so the Map's insertion order doubles as LRU order
+      this.entries.delete(key);
+      this.entries.set(key, now + ttl);
+    }
+
+    while (this.entries.size > MAX_CACHE_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+// Pick a llama.cpp slot for a cached prefix, so it keeps landing on the slot
+// whose KV cache already holds it
+export function getCacheSlot(cache: PromptCacheContext, slots: number): number {
+  return Buffer.from(cache.slotKey, 'base64').readUInt32BE(0) % slots;
+}
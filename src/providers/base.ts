@@ -1,4 +1,5 @@
 import {
+  BackendInventory,
   ClaudeRequest,
   ClaudeResponse,
   ClaudeMessage,
@@ -6,46 +7,110 @@ import {
   ClaudeTextBlock,
   ClaudeToolUseBlock,
   ClaudeToolResultBlock,
+  ClaudeImageBlock,
+  ClaudeDocumentBlock,
   ClaudeTool,
   ClaudeSystem,
   ClaudeSystemBlock,
+  ClaudeUsage,
   OpenAIRequest,
   OpenAIMessage,
+  OpenAIContentPart,
+  OpenAITextPart,
   OpenAIResponse,
   OpenAITool,
   OpenAIToolCall,
   ProviderConfig,
-  BetaFeature,
+  RequestContext,
+  SseSink,
+  TokenCountRequest,
 } from '../types';
-import { Response } from 'express';
+import { UpstreamError } from '../errors';
+import * as http from 'http';
+import * as https from 'https';
+import { createThinkingSignature, mapThinkingBudget, splitThinkTags } from './thinking';
+import { mapFinishReason, StreamTranslatorOptions } from './stream-translator';
+import { countRequestTokens } from '../tokens';
+import { EndpointLease, EndpointPool, EndpointStats } from '../balancer';
+import { createDocumentRenderer, RenderedDocument } from '../documents';
+
+// Full URL of an endpoint under a base URL such as http://host:1234/v1
+export function joinEndpointUrl(baseUrl: string, endpoint: string): string {
+  const url = new URL(baseUrl);
+  return `${url.origin}${`${url.pathname}${endpoint}`.replace('//', '/')}`;
+}
 
 export abstract class BaseProvider {
   protected config: ProviderConfig;
-  protected modelOverride?: string;
-  protected betaFeatures: BetaFeature[] = [];
+  // Human-readable backend name used in error messages
+  protected abstract readonly displayName: string;
+  private endpointPool: EndpointPool;
 
   constructor(config: ProviderConfig) {
     this.config = config;
+    const urls = config.endpoints && config.endpoints.length > 0 ? config.endpoints : [config.baseUrl];
+    this.endpointPool = new EndpointPool(urls, config.loadBalancing);
+  }
+
+  // Pick the backend instance for a request; release the lease with its outcome
+  acquireEndpoint(request?: ClaudeRequest | TokenCountRequest): EndpointLease {
+    return this.endpointPool.acquire(request);
+  }
+
+  get endpoints(): string[] {
+    return this.endpointPool.urls;
+  }
+
+  getEndpointStats(): EndpointStats[] {
+    return this.endpointPool.getStats();
+  }
+
+  // Record a health check result so the load balancer can skip a down instance
+  setEndpointDown(url: string, down: boolean): void {
+    this.endpointPool.setDown(url, down);
   }
 
-  setModelOverride(model: string): void {
-    this.modelOverride = model;
+  // List the models an instance serves, for health checks. Throws if it is unreachable.
+  async probe(baseUrl: string, signal: AbortSignal): Promise<BackendInventory> {
+    const response = await fetch(joinEndpointUrl(baseUrl, '/models'), {
+      headers: this.getRequestHeaders(),
+      signal,
+    });
+    if (!response.ok) {
+      throw new UpstreamError(`${this.displayName} /models returned ${response.status}`, response.status);
+    }
+    const data = await response.json() as { data?: { id: string }[] };
+    return { models: data.data?.map(m => m.id) || [] };
   }
 
-  clearModelOverride(): void {
-    this.modelOverride = undefined;
+  // Base URL of the instance serving this request
+  protected getBaseUrl(ctx: RequestContext): string {
+    return ctx.endpoint || this.endpoints[0];
   }
 
-  setBetaFeatures(features: BetaFeature[]): void {
-    this.betaFeatures = features;
+  protected getEffectiveModel(ctx: RequestContext): string {
+    return ctx.model || this.config.model;
   }
 
-  clearBetaFeatures(): void {
-    this.betaFeatures = [];
+  // Milliseconds left before the request deadline, or undefined if none is set
+  protected getRemainingTime(ctx: RequestContext): number | undefined {
+    if (ctx.deadline === undefined) {
+      return undefined;
+    }
+    return Math.max(ctx.deadline - Date.now(), 0);
   }
 
-  protected getEffectiveModel(): string {
-    return this.modelOverride || this.config.model;
+  // Signal for upstream fetches that fires on client disconnect or at the deadline
+  protected getAbortSignal(ctx: RequestContext): AbortSignal | undefined {
+    const signals: AbortSignal[] = [];
+    if (ctx.signal) {
+      signals.push(ctx.signal);
+    }
+    const remaining = this.getRemainingTime(ctx);
+    if (remaining !== undefined) {
+      signals.push(AbortSignal.timeout(remaining));
+    }
+    return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
   }
 
   protected extractSystemContent(system: ClaudeSystem): string {
@@ -58,7 +123,7 @@ export abstract class BaseProvider {
       .join('\n\n');
   }
 
-  protected convertClaudeToOpenAI(request: ClaudeRequest): OpenAIRequest {
+  protected convertClaudeToOpenAI(request: ClaudeRequest, ctx: RequestContext): OpenAIRequest {
     const messages: OpenAIMessage[] = [];
 
     // Add system message if present (handle both string and array format)
@@ -69,14 +134,15 @@ export abstract class BaseProvider {
       });
     }
 
-    // Convert Claude messages to OpenAI format
+    // Convert Claude messages to OpenAI format, numbering documents across the request
+    const renderDocument = createDocumentRenderer({ pageImages: ctx.documentPageImages, maxSize: ctx.documentMaxSize });
     for (const msg of request.messages) {
-      const convertedMessages = this.convertClaudeMessageToOpenAI(msg);
+      const convertedMessages = this.convertClaudeMessageToOpenAI(msg, renderDocument);
       messages.push(...convertedMessages);
     }
 
     const openAIRequest: OpenAIRequest = {
-      model: this.getEffectiveModel(),
+      model: this.getEffectiveModel(ctx),
       messages,
       max_tokens: request.max_tokens,
       temperature: request.temperature,
@@ -104,10 +170,18 @@ export abstract class BaseProvider {
       openAIRequest.tool_choice = this.convertClaudeToolChoiceToOpenAI(request.tool_choice);
     }
 
+    // Map the thinking budget to a reasoning effort for reasoning models
+    if (request.thinking?.type === 'enabled') {
+      openAIRequest.reasoning_effort = mapThinkingBudget(request.thinking);
+    }
+
     return openAIRequest;
   }
 
-  protected convertClaudeMessageToOpenAI(msg: ClaudeMessage): OpenAIMessage[] {
+  protected convertClaudeMessageToOpenAI(
+    msg: ClaudeMessage,
+    renderDocument: (block: ClaudeDocumentBlock) => RenderedDocument
+  ): OpenAIMessage[] {
     const messages: OpenAIMessage[] = [];
 
     if (typeof msg.content === 'string') {
@@ -118,18 +192,25 @@ export abstract class BaseProvider {
       return messages;
     }
 
-    // Group content blocks by type
+    // Group content blocks by type. Thinking blocks from earlier turns are
+    // dropped: local chat templates expect history without prior reasoning.
     const textBlocks: ClaudeTextBlock[] = [];
     const toolUseBlocks: ClaudeToolUseBlock[] = [];
     const toolResultBlocks: ClaudeToolResultBlock[] = [];
+    const imageBlocks: ClaudeImageBlock[] = [];
+    const documentBlocks: ClaudeDocumentBlock[] = [];
 
     for (const block of msg.content) {
       if (block.type === 'text') {
         textBlocks.push(block as ClaudeTextBlock);
+      } else if (block.type === 'image') {
+        imageBlocks.push(block as ClaudeImageBlock);
       } else if (block.type === 'tool_use') {
         toolUseBlocks.push(block as ClaudeToolUseBlock);
       } else if (block.type === 'tool_result') {
         toolResultBlocks.push(block as ClaudeToolResultBlock);
+      } else if (block.type === 'document') {
+        documentBlocks.push(block as ClaudeDocumentBlock);
       }
     }
 
@@ -162,11 +243,22 @@ export abstract class BaseProvider {
     }
     // Handle user messages with tool_result
     else if (msg.role === 'user') {
+      // Tool messages only carry text, so images returned by tools are
+      // forwarded in the user message that follows the tool results
+      const toolResultImages: ClaudeImageBlock[] = [];
+
       // First add tool results as separate tool messages
       for (const block of toolResultBlocks) {
-        const resultContent = typeof block.content === 'string'
-          ? block.content
-          : block.content.map(b => b.text).join('\n');
+        let resultContent: string;
+        if (typeof block.content === 'string') {
+          resultContent = block.content;
+        } else {
+          resultContent = block.content
+            .filter((b): b is ClaudeTextBlock => b.type === 'text')
+            .map(b => b.text)
+            .join('\n');
+          toolResultImages.push(...block.content.filter((b): b is ClaudeImageBlock => b.type === 'image'));
+        }
 
         messages.push({
           role: 'tool',
@@ -175,11 +267,25 @@ export abstract class BaseProvider {
         });
       }
 
-      // Then add any text content as user message
-      if (textBlocks.length > 0) {
+      // Documents are extracted to text and go ahead of the question about them
+      const documents = documentBlocks.map(renderDocument);
+      const texts = [...documents.map(d => d.text), ...textBlocks.map(b => b.text)];
+
+      // Then add text and images as a user message, using content parts when images are present
+      const images = [...toolResultImages, ...documents.flatMap(d => d.images), ...imageBlocks];
+      if (images.length > 0) {
+        const parts: OpenAIContentPart[] = [
+          ...texts.map(text => ({ type: 'text' as const, text })),
+          ...images.map(b => this.convertClaudeImageToOpenAI(b)),
+        ];
+        messages.push({
+          role: 'user',
+          content: parts,
+        });
+      } else if (texts.length > 0) {
         messages.push({
           role: 'user',
-          content: textBlocks.map(b => b.text).join('\n'),
+          content: texts.join('\n'),
         });
       }
     }
@@ -187,6 +293,28 @@ export abstract class BaseProvider {
     return messages;
   }
 
+  protected convertClaudeImageToOpenAI(block: ClaudeImageBlock): OpenAIContentPart {
+    const url = block.source.type === 'base64'
+      ? `data:${block.source.media_type || 'image/png'};base64,${block.source.data}`
+      : block.source.url || '';
+
+    return { type: 'image_url', image_url: { url } };
+  }
+
+  // Text of an OpenAI message, ignoring any image parts
+  protected flattenOpenAIContent(content: string | OpenAIContentPart[] | null): string {
+    if (content === null) {
+      return '';
+    }
+    if (typeof content === 'string') {
+      return content;
+    }
+    return content
+      .filter((part): part is OpenAITextPart => part.type === 'text')
+      .map(part => part.text)
+      .join('\n');
+  }
+
   protected convertClaudeToolsToOpenAI(tools: ClaudeTool[]): OpenAITool[] {
     return tools.map(tool => ({
       type: 'function' as const,
@@ -227,16 +355,29 @@ export abstract class BaseProvider {
 
   protected convertOpenAIToClaude(
     response: OpenAIResponse,
-    originalModel: string
+    originalModel: string,
+    ctx: RequestContext
   ): ClaudeResponse {
     const choice = response.choices[0];
     const content: ClaudeContentBlock[] = [];
 
+    // Reasoning arrives in a separate field or inline in <think> tags
+    const { thinking: taggedThinking, text } = splitThinkTags(choice?.message?.content || '');
+    const thinking = choice?.message?.reasoning_content || choice?.message?.reasoning || taggedThinking;
+
+    if (thinking) {
+      content.push({
+        type: 'thinking',
+        thinking,
+        signature: createThinkingSignature(thinking),
+      });
+    }
+
     // Add text content if present
-    if (choice?.message?.content) {
+    if (text) {
       content.push({
         type: 'text',
-        text: choice.message.content,
+        text,
       });
     }
 
@@ -266,34 +407,159 @@ export abstract class BaseProvider {
       role: 'assistant',
       content,
       model: originalModel,
-      stop_reason: this.mapFinishReason(choice?.finish_reason),
+      stop_reason: mapFinishReason(choice?.finish_reason),
       stop_sequence: null,
-      usage: {
-        input_tokens: response.usage?.prompt_tokens || 0,
-        output_tokens: response.usage?.completion_tokens || 0,
-      },
+      usage: this.applyCacheUsage(
+        {
+          input_tokens: response.usage?.prompt_tokens || 0,
+          output_tokens: response.usage?.completion_tokens || 0,
+        },
+        ctx,
+        response.usage?.prompt_tokens_details?.cached_tokens ?? response.timings?.cache_n
+      ),
     };
   }
 
-  protected mapFinishReason(reason: string | null): string {
-    switch (reason) {
-      case 'stop':
-        return 'end_turn';
-      case 'length':
-        return 'max_tokens';
-      case 'content_filter':
-        return 'stop_sequence';
-      case 'tool_calls':
-        return 'tool_use';
-      default:
-        return 'end_turn';
+  // Split prompt usage into Anthropic's cache fields when the request has cache breakpoints
+  protected applyCacheUsage(usage: ClaudeUsage, ctx: RequestContext, cachedTokens?: number): ClaudeUsage {
+    return ctx.promptCache ? ctx.promptCache.applyUsage(usage, cachedTokens) : usage;
+  }
+
+  protected getRequestHeaders(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  // Full URL of an endpoint under the request's base URL
+  protected getEndpointUrl(endpoint: string, ctx: RequestContext): string {
+    return joinEndpointUrl(this.getBaseUrl(ctx), endpoint);
+  }
+
+  // POST a JSON body to an endpoint under the request's base URL and parse the JSON reply
+  protected makeRequest(endpoint: string, body: unknown, ctx: RequestContext): Promise<unknown> {
+    return this.postJson(this.getEndpointUrl(endpoint, ctx), body, ctx);
+  }
+
+  protected async postJson(url: string, body: unknown, ctx: RequestContext): Promise<unknown> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.getRequestHeaders(),
+      },
+      body: JSON.stringify(body),
+      signal: this.getAbortSignal(ctx),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new UpstreamError(`${this.displayName} request failed: ${response.status} ${text}`, response.status, text);
     }
+
+    return response.json();
+  }
+
+  // POST a JSON body and resolve with the upstream response once its headers
+  // arrive, so the caller can iterate the streamed body
+  protected openStream(
+    url: string,
+    body: unknown,
+    headers: Record<string, string>,
+    ctx: RequestContext
+  ): Promise<http.IncomingMessage> {
+    const target = new URL(url);
+    const httpModule = target.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      // Tear down the upstream connection, mid-body included, when the client
+      // goes away or the deadline passes. That is what makes LM Studio and
+      // Ollama stop generating.
+      const controller = new AbortController();
+      let upstreamResponse: http.IncomingMessage | undefined;
+
+      const req = httpModule.request(target, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+      }, (upstream) => {
+        upstreamResponse = upstream;
+        upstream.on('close', cleanup);
+        if (upstream.statusCode && upstream.statusCode >= 400) {
+          let text = '';
+          upstream.on('data', (chunk: Buffer) => { text += chunk.toString(); });
+          upstream.on('end', () => {
+            reject(new UpstreamError(`${this.displayName} request failed: ${upstream.statusCode} ${text}`, upstream.statusCode, text));
+          });
+          return;
+        }
+        resolve(upstream);
+      });
+
+      const abort = (name: string, message: string) => {
+        const error = new Error(message);
+        error.name = name;
+        controller.abort(error);
+      };
+      controller.signal.addEventListener('abort', () => {
+        const reason = controller.signal.reason as Error;
+        upstreamResponse?.destroy(reason);
+        req.destroy(reason);
+      }, { once: true });
+
+      const { signal } = ctx;
+      const onClientAbort = () => abort('AbortError', `Request ${ctx.requestId} was cancelled by the client`);
+
+      // An absolute deadline: a socket idle timeout would never fire while
+      // the backend keeps sending tokens
+      const remaining = this.getRemainingTime(ctx);
+      const deadlineTimer = remaining !== undefined
+        ? setTimeout(() => abort('TimeoutError', `Request ${ctx.requestId} exceeded its deadline`), remaining)
+        : undefined;
+
+      const cleanup = () => {
+        clearTimeout(deadlineTimer);
+        signal?.removeEventListener('abort', onClientAbort);
+      };
+
+      req.on('error', (err) => {
+        cleanup();
+        reject(err);
+      });
+
+      if (signal?.aborted) {
+        onClientAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onClientAbort, { once: true });
+
+      req.write(JSON.stringify(body));
+      req.end();
+    });
   }
 
   protected generateMessageId(): string {
     return `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
   }
 
-  abstract complete(request: ClaudeRequest): Promise<ClaudeResponse>;
-  abstract stream(request: ClaudeRequest, res: Response): Promise<void>;
+  // Translator options for a streamed reply: an up-front prompt estimate for
+  // message_start, and the backend tokenizer for output the backend did not count
+  protected getStreamOptions(request: ClaudeRequest, ctx: RequestContext): StreamTranslatorOptions {
+    return {
+      messageId: this.generateMessageId(),
+      model: request.model,
+      inputTokens: countRequestTokens(request, this.getEffectiveModel(ctx), ctx.documentMaxSize),
+      countTokens: text => this.tokenize(text, ctx),
+      promptCache: ctx.promptCache,
+    };
+  }
+
+  // Count tokens with the backend's own tokenizer. Resolves to undefined when
+  // the backend cannot do this, so callers fall back to an estimate.
+  async tokenize(_text: string, _ctx: RequestContext): Promise<number | undefined> {
+    return undefined;
+  }
+
+  abstract complete(request: ClaudeRequest, ctx: RequestContext): Promise<ClaudeResponse>;
+  abstract stream(request: ClaudeRequest, sink: SseSink, ctx: RequestContext): Promise<void>;
 }
@@ -1,20 +1,41 @@
 import { BaseProvider } from './base';
 import { LMStudioProvider } from './lmstudio';
 import { OllamaProvider } from './ollama';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { BUILTIN_PROVIDERS } from '../config';
 import { Config, Provider } from '../types';
 
-export function createProvider(config: Config): BaseProvider {
-  const provider = config.provider;
-  const providerConfig = config[provider];
+export type ProviderRegistry = Map<Provider, BaseProvider>;
 
+export function createProvider(config: Config, provider: Provider): BaseProvider {
   switch (provider) {
     case 'lmstudio':
-      return new LMStudioProvider(providerConfig);
+      return new LMStudioProvider(config.lmstudio);
     case 'ollama':
-      return new OllamaProvider(providerConfig);
-    default:
-      throw new Error(`Unknown provider: ${provider}`);
+      return new OllamaProvider(config.ollama);
+    default: {
+      const entry = config.openaiCompatible?.find(e => e.name === provider);
+      if (!entry) {
+        throw new Error(`Unknown provider: ${provider}`);
+      }
+      return new OpenAICompatibleProvider(entry);
+    }
   }
 }
 
-export { BaseProvider, LMStudioProvider, OllamaProvider };
+// Instantiate every configured backend so routes can target any of them
+export function createProviders(config: Config): ProviderRegistry {
+  const providers: ProviderRegistry = new Map();
+  for (const provider of BUILTIN_PROVIDERS) {
+    providers.set(provider, createProvider(config, provider));
+  }
+  for (const entry of config.openaiCompatible || []) {
+    if (providers.has(entry.name)) {
+      throw new Error(`Duplicate provider name: ${entry.name}`);
+    }
+    providers.set(entry.name, new OpenAICompatibleProvider(entry));
+  }
+  return providers;
+}
+
+export { BaseProvider, LMStudioProvider, OllamaProvider, OpenAICompatibleProvider };
@@ -1,16 +1,25 @@
 import { BaseProvider } from './base';
-import { ClaudeRequest, ClaudeResponse, OpenAIResponse, OpenAIStreamChunk, OpenAIStreamToolCall, ProviderConfig } from '../types';
-import { Response } from 'express';
-import * as http from 'http';
-import * as https from 'https';
+import {
+  BackendInventory,
+  ClaudeContentBlock,
+  ClaudeRequest,
+  ClaudeResponse,
+  OllamaChatMessage,
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaConfig,
+  OpenAIImagePart,
+  OpenAIResponse,
+  OpenAIStreamChunk,
+  RequestContext,
+  SseSink,
+} from '../types';
+import { UpstreamError } from '../errors';
+import { getOllamaApi } from '../config';
+import { createThinkingSignature, splitThinkTags } from './thinking';
+import { parseNDJSONStream, parseSSEStream, translateStream } from './stream-translator';
 import chalk from 'chalk';
 
-interface StreamingToolCall {
-  id: string;
-  name: string;
-  arguments: string;
-}
-
 interface OllamaModel {
   name: string;
   modified_at: string;
@@ -21,50 +30,77 @@ interface OllamaTagsResponse {
   models: OllamaModel[];
 }
 
+interface OllamaPsResponse {
+  models: { name: string }[];
+}
+
 export class OllamaProvider extends BaseProvider {
+  protected declare config: OllamaConfig;
   private modelLoadAttempted: Set<string> = new Set();
 
-  constructor(config: ProviderConfig) {
+  protected readonly displayName = 'Ollama';
+
+  constructor(config: OllamaConfig) {
     super(config);
   }
 
+  private useNativeApi(): boolean {
+    return getOllamaApi(this.config) === 'native';
+  }
+
   // Get Ollama native API base URL (without /v1)
-  private getOllamaApiBase(): string {
-    const url = new URL(this.config.baseUrl);
+  private getOllamaApiBase(baseUrl: string): string {
+    const url = new URL(baseUrl);
     // Remove /v1 suffix if present to get native Ollama API
     const base = url.origin;
     return base;
   }
 
-  // Check if model is available locally
-  async isModelAvailable(modelName: string): Promise<boolean> {
-    try {
-      const base = this.getOllamaApiBase();
-      const response = await fetch(`${base}/api/tags`);
-      if (!response.ok) return false;
+  // Installed models from /api/tags, and the ones loaded in memory from /api/ps
+  async probe(baseUrl: string, signal: AbortSignal): Promise<BackendInventory> {
+    const base = this.getOllamaApiBase(baseUrl);
+    const [tags, ps] = await Promise.all(['/api/tags', '/api/ps'].map(async endpoint => {
+      const response = await fetch(`${base}${endpoint}`, { headers: this.getRequestHeaders(), signal });
+      if (!response.ok) {
+        throw new UpstreamError(`Ollama ${endpoint} returned ${response.status}`, response.status);
+      }
+      return response.json();
+    })) as [OllamaTagsResponse, OllamaPsResponse];
 
-      const data = await response.json() as OllamaTagsResponse;
-      const normalizedName = modelName.split(':')[0].toLowerCase();
+    return {
+      models: tags.models?.map(m => m.name) || [],
+      loadedModels: ps.models?.map(m => m.name) || [],
+    };
+  }
 
-      return data.models.some(m => {
-        const name = m.name.split(':')[0].toLowerCase();
-        return name === normalizedName || m.name.toLowerCase() === modelName.toLowerCase();
-      });
-    } catch {
-      return false;
-    }
+  // Ollama names without a tag mean :latest, so compare full tags
+  private normalizeModelName(name: string): string {
+    return (name.includes(':') ? name : `${name}:latest`).toLowerCase();
+  }
+
+  // Check if model is available locally
+  private async isModelAvailable(modelName: string, ctx: RequestContext): Promise<boolean> {
+    const base = this.getOllamaApiBase(this.getBaseUrl(ctx));
+    const response = await fetch(`${base}/api/tags`, { headers: this.getRequestHeaders(), signal: this.getAbortSignal(ctx) });
+    if (!response.ok) return false;
+
+    const data = await response.json() as OllamaTagsResponse;
+    const wanted = this.normalizeModelName(modelName);
+    return data.models.some(m => this.normalizeModelName(m.name) === wanted);
   }
 
   // Pull/download a model
-  async pullModel(modelName: string): Promise<boolean> {
+  private async pullModel(modelName: string, ctx: RequestContext): Promise<boolean> {
     console.log(chalk.yellow(`  Pulling model ${modelName}...`));
+    const signal = this.getAbortSignal(ctx);
 
     try {
-      const base = this.getOllamaApiBase();
+      const base = this.getOllamaApiBase(this.getBaseUrl(ctx));
       const response = await fetch(`${base}/api/pull`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...this.getRequestHeaders() },
         body: JSON.stringify({ name: modelName, stream: false }),
+        signal,
       });
 
       if (response.ok) {
@@ -76,25 +112,28 @@ export class OllamaProvider extends BaseProvider {
         return false;
       }
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.log(chalk.red(`  Error pulling model: ${error}`));
       return false;
     }
   }
 
   // Load/warm up a model by sending a minimal request
-  async loadModel(modelName: string): Promise<boolean> {
+  private async loadModel(modelName: string, ctx: RequestContext): Promise<boolean> {
     console.log(chalk.yellow(`  Loading model ${modelName}...`));
+    const signal = this.getAbortSignal(ctx);
 
     try {
-      const base = this.getOllamaApiBase();
+      const base = this.getOllamaApiBase(this.getBaseUrl(ctx));
       const response = await fetch(`${base}/api/generate`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...this.getRequestHeaders() },
         body: JSON.stringify({
           model: modelName,
           prompt: '',
           stream: false,
         }),
+        signal,
       });
 
       if (response.ok) {
@@ -102,304 +141,301 @@ export class OllamaProvider extends BaseProvider {
         return true;
       }
       return false;
-    } catch {
+    } catch (error) {
+      if (signal?.aborted) throw error;
       return false;
     }
   }
 
-  // Ensure model is available and loaded
-  async ensureModelReady(modelName: string): Promise<void> {
-    // Prevent infinite loops
-    if (this.modelLoadAttempted.has(modelName)) {
-      return;
+  // Pull a missing model and load it. Returns false when this was already
+  // tried for the model on this instance, so a request is retried only once.
+  private async ensureModelReady(modelName: string, ctx: RequestContext): Promise<boolean> {
+    const attemptKey = `${this.getBaseUrl(ctx)} ${modelName}`;
+    if (this.modelLoadAttempted.has(attemptKey)) {
+      return false;
     }
-    this.modelLoadAttempted.add(modelName);
+    this.modelLoadAttempted.add(attemptKey);
 
-    const isAvailable = await this.isModelAvailable(modelName);
-
-    if (!isAvailable) {
+    if (!(await this.isModelAvailable(modelName, ctx))) {
       console.log(chalk.yellow(`  Model ${modelName} not found locally`));
-      const pulled = await this.pullModel(modelName);
+      const pulled = await this.pullModel(modelName, ctx);
       if (!pulled) {
-        throw new Error(`Failed to pull model ${modelName}. Please run: ollama pull ${modelName}`);
+        throw new UpstreamError(`Failed to pull model ${modelName}. Please run: ollama pull ${modelName}`, 404);
       }
     }
 
     // Load the model to warm it up
-    await this.loadModel(modelName);
+    await this.loadModel(modelName, ctx);
+    return true;
   }
 
-  async complete(request: ClaudeRequest): Promise<ClaudeResponse> {
-    const openAIRequest = this.convertClaudeToOpenAI(request);
-    openAIRequest.stream = false;
+  // Ollama answers 404 "model ... not found" for models it has not pulled
+  private isModelNotFound(error: unknown): boolean {
+    return error instanceof UpstreamError && error.status === 404 && /not found/i.test(error.body || error.message);
+  }
 
+  // Send a request, pulling the model and sending it once more if Ollama
+  // does not have it. Other failures are left to runWithFallback.
+  private async withModel<T>(modelName: string, ctx: RequestContext, send: () => Promise<T>): Promise<T> {
     try {
-      const response = await this.makeRequest('/chat/completions', openAIRequest);
-      return this.convertOpenAIToClaude(response as OpenAIResponse, request.model);
+      return await send();
     } catch (error) {
-      // If request failed, try to ensure model is ready and retry
-      const modelName = this.getEffectiveModel();
-      if (error instanceof Error && (
-        error.message.includes('model') ||
-        error.message.includes('not found') ||
-        error.message.includes('404') ||
-        error.message.includes('ECONNREFUSED')
-      )) {
-        await this.ensureModelReady(modelName);
-        // Retry the request
-        const response = await this.makeRequest('/chat/completions', openAIRequest);
-        return this.convertOpenAIToClaude(response as OpenAIResponse, request.model);
+      if (!this.isModelNotFound(error) || !(await this.ensureModelReady(modelName, ctx))) {
+        throw error;
       }
-      throw error;
+      return send();
     }
   }
 
-  async stream(request: ClaudeRequest, res: Response): Promise<void> {
-    const openAIRequest = this.convertClaudeToOpenAI(request);
-    openAIRequest.stream = true;
+  // Build a native /api/chat request, reusing the OpenAI conversion for message grouping
+  private convertClaudeToOllama(request: ClaudeRequest, ctx: RequestContext, stream: boolean): OllamaChatRequest {
+    const openAIRequest = this.convertClaudeToOpenAI(request, ctx);
+    const toolNames = new Map<string, string>();
+    const messages: OllamaChatMessage[] = [];
+
+    for (const msg of openAIRequest.messages) {
+      const nativeMessage: OllamaChatMessage = {
+        role: msg.role,
+        content: this.flattenOpenAIContent(msg.content),
+      };
+
+      // Native images are bare base64 strings; remote image URLs cannot be passed through
+      if (Array.isArray(msg.content)) {
+        const images = msg.content
+          .filter((part): part is OpenAIImagePart => part.type === 'image_url')
+          .map(part => part.image_url.url.match(/^data:[^;]+;base64,(.*)$/)?.[1])
+          .filter((data): data is string => data !== undefined);
+        if (images.length > 0) {
+          nativeMessage.images = images;
+        }
+      }
+
+      if (msg.tool_calls && msg.tool_calls.length > 0) {
+        nativeMessage.tool_calls = msg.tool_calls.map(tc => {
+          toolNames.set(tc.id, tc.function.name);
+          return {
+            function: {
+              name: tc.function.name,
+              arguments: JSON.parse(tc.function.arguments || '{}'),
+            },
+          };
+        });
+      }
+
+      // Native tool results are matched by tool name rather than call id
+      if (msg.role === 'tool' && msg.tool_call_id) {
+        nativeMessage.tool_name = toolNames.get(msg.tool_call_id);
+      }
 
-    // Pre-check if model is available for streaming
-    const modelName = this.getEffectiveModel();
-    const isAvailable = await this.isModelAvailable(modelName);
-    if (!isAvailable) {
-      await this.ensureModelReady(modelName);
+      messages.push(nativeMessage);
     }
 
-    const url = new URL(this.config.baseUrl);
-    const isHttps = url.protocol === 'https:';
-    const httpModule = isHttps ? https : http;
-
-    const options: http.RequestOptions = {
-      hostname: url.hostname,
-      port: url.port || (isHttps ? 443 : 80),
-      path: `${url.pathname}/chat/completions`.replace('//', '/'),
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
-      },
+    const options = {
+      ...this.config.options,
+      ...(ctx.contextWindow !== undefined && { num_ctx: ctx.contextWindow }),
+      num_predict: request.max_tokens,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.top_p !== undefined && { top_p: request.top_p }),
+      ...(request.top_k !== undefined && { top_k: request.top_k }),
+      ...(openAIRequest.stop && { stop: openAIRequest.stop }),
     };
 
-    return new Promise((resolve, reject) => {
-      const req = httpModule.request(options, (upstream) => {
-        // Set up SSE headers for Claude format
-        res.setHeader('Content-Type', 'text/event-stream');
-        res.setHeader('Cache-Control', 'no-cache');
-        res.setHeader('Connection', 'keep-alive');
-
-        const messageId = this.generateMessageId();
-        let inputTokens = 0;
-        let outputTokens = 0;
-        let buffer = '';
-        let hasStartedTextBlock = false;
-        let currentBlockIndex = 0;
-        let finishReason = 'end_turn';
-
-        // Track streaming tool calls
-        const toolCalls: Map<number, StreamingToolCall> = new Map();
-        let hasToolCalls = false;
-
-        // Send initial message_start event
-        const messageStart = {
-          type: 'message_start',
-          message: {
-            id: messageId,
-            type: 'message',
-            role: 'assistant',
-            content: [],
-            model: request.model,
-            stop_reason: null,
-            stop_sequence: null,
-            usage: { input_tokens: 0, output_tokens: 0 },
-          },
-        };
-        res.write(`event: message_start\ndata: ${JSON.stringify(messageStart)}\n\n`);
-
-        upstream.on('data', (chunk: Buffer) => {
-          buffer += chunk.toString();
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              if (data === '[DONE]') {
-                continue;
-              }
-
-              try {
-                const parsed = JSON.parse(data) as OpenAIStreamChunk;
-                const choice = parsed.choices[0];
-                const content = choice?.delta?.content;
-                const deltaToolCalls = choice?.delta?.tool_calls;
-
-                // Handle text content
-                if (content) {
-                  if (!hasStartedTextBlock) {
-                    const blockStart = {
-                      type: 'content_block_start',
-                      index: currentBlockIndex,
-                      content_block: { type: 'text', text: '' },
-                    };
-                    res.write(`event: content_block_start\ndata: ${JSON.stringify(blockStart)}\n\n`);
-                    hasStartedTextBlock = true;
-                  }
-
-                  outputTokens++;
-                  const delta = {
-                    type: 'content_block_delta',
-                    index: currentBlockIndex,
-                    delta: { type: 'text_delta', text: content },
-                  };
-                  res.write(`event: content_block_delta\ndata: ${JSON.stringify(delta)}\n\n`);
-                }
-
-                // Handle tool calls
-                if (deltaToolCalls && deltaToolCalls.length > 0) {
-                  hasToolCalls = true;
-
-                  for (const toolCallDelta of deltaToolCalls) {
-                    const tcIndex = toolCallDelta.index;
-
-                    if (!toolCalls.has(tcIndex)) {
-                      // New tool call starting
-                      toolCalls.set(tcIndex, {
-                        id: toolCallDelta.id || `toolu_${Date.now()}_${tcIndex}`,
-                        name: toolCallDelta.function?.name || '',
-                        arguments: '',
-                      });
-                    }
-
-                    const tc = toolCalls.get(tcIndex)!;
-
-                    // Update with any new data
-                    if (toolCallDelta.id) tc.id = toolCallDelta.id;
-                    if (toolCallDelta.function?.name) tc.name = toolCallDelta.function.name;
-                    if (toolCallDelta.function?.arguments) {
-                      tc.arguments += toolCallDelta.function.arguments;
-                    }
-                  }
-                }
-
-                // Track finish reason
-                if (choice?.finish_reason) {
-                  finishReason = this.mapFinishReason(choice.finish_reason);
-                }
-
-                if (parsed.usage) {
-                  inputTokens = parsed.usage.prompt_tokens || inputTokens;
-                }
-              } catch {
-                // Ignore parse errors for malformed chunks
-              }
-            }
-          }
-        });
+    // Keep the model loaded (and its KV cache warm) for as long as the prompt cache lasts
+    const keepAlive = this.config.keepAlive ?? ctx.promptCache?.keepAlive;
+
+    return {
+      model: openAIRequest.model,
+      messages,
+      stream,
+      ...(openAIRequest.tools && { tools: openAIRequest.tools }),
+      options,
+      ...(keepAlive !== undefined && { keep_alive: keepAlive }),
+      ...(request.thinking && { think: request.thinking.type === 'enabled' }),
+    };
+  }
 
-        upstream.on('end', () => {
-          // Close text block if we started one
-          if (hasStartedTextBlock) {
-            const blockStop = { type: 'content_block_stop', index: currentBlockIndex };
-            res.write(`event: content_block_stop\ndata: ${JSON.stringify(blockStop)}\n\n`);
-            currentBlockIndex++;
-          }
-
-          // Emit tool_use blocks
-          if (hasToolCalls) {
-            for (const [, tc] of toolCalls) {
-              // Start tool_use block
-              const toolBlockStart = {
-                type: 'content_block_start',
-                index: currentBlockIndex,
-                content_block: {
-                  type: 'tool_use',
-                  id: tc.id,
-                  name: tc.name,
-                  input: {},
-                },
-              };
-              res.write(`event: content_block_start\ndata: ${JSON.stringify(toolBlockStart)}\n\n`);
-
-              // Send input as JSON delta
-              if (tc.arguments) {
-                const inputDelta = {
-                  type: 'content_block_delta',
-                  index: currentBlockIndex,
-                  delta: {
-                    type: 'input_json_delta',
-                    partial_json: tc.arguments,
-                  },
-                };
-                res.write(`event: content_block_delta\ndata: ${JSON.stringify(inputDelta)}\n\n`);
-              }
-
-              // Stop tool_use block
-              const toolBlockStop = { type: 'content_block_stop', index: currentBlockIndex };
-              res.write(`event: content_block_stop\ndata: ${JSON.stringify(toolBlockStop)}\n\n`);
-              currentBlockIndex++;
-            }
-          }
-
-          // If no content blocks were created, create an empty text block
-          if (!hasStartedTextBlock && !hasToolCalls) {
-            const blockStart = {
-              type: 'content_block_start',
-              index: 0,
-              content_block: { type: 'text', text: '' },
-            };
-            res.write(`event: content_block_start\ndata: ${JSON.stringify(blockStart)}\n\n`);
-            const blockStop = { type: 'content_block_stop', index: 0 };
-            res.write(`event: content_block_stop\ndata: ${JSON.stringify(blockStop)}\n\n`);
-          }
-
-          // Send message_delta with final info
-          const messageDelta = {
-            type: 'message_delta',
-            delta: { stop_reason: finishReason, stop_sequence: null },
-            usage: { output_tokens: outputTokens },
-          };
-          res.write(`event: message_delta\ndata: ${JSON.stringify(messageDelta)}\n\n`);
+  private mapDoneReason(reason: string | undefined, hasToolCalls: boolean): string {
+    if (hasToolCalls) {
+      return 'tool_use';
+    }
+    return reason === 'length' ? 'max_tokens' : 'end_turn';
+  }
 
-          // Send message_stop
-          const messageStop = { type: 'message_stop' };
-          res.write(`event: message_stop\ndata: ${JSON.stringify(messageStop)}\n\n`);
+  private generateToolUseId(index: number): string {
+    return `toolu_${Date.now()}_${index}_${Math.random().toString(36).substring(2, 7)}`;
+  }
 
-          res.end();
-          resolve();
-        });
+  private convertOllamaToClaude(response: OllamaChatResponse, originalModel: string, ctx: RequestContext): ClaudeResponse {
+    const content: ClaudeContentBlock[] = [];
+    const toolCalls = response.message?.tool_calls || [];
 
-        upstream.on('error', (err) => {
-          reject(err);
-        });
+    // Reasoning arrives in the thinking field when requested, or inline in <think> tags
+    const { thinking: taggedThinking, text } = splitThinkTags(response.message?.content || '');
+    const thinking = response.message?.thinking || taggedThinking;
+
+    if (thinking) {
+      content.push({ type: 'thinking', thinking, signature: createThinkingSignature(thinking) });
+    }
+
+    if (text) {
+      content.push({ type: 'text', text });
+    }
+
+    toolCalls.forEach((toolCall, i) => {
+      content.push({
+        type: 'tool_use',
+        id: this.generateToolUseId(i),
+        name: toolCall.function.name,
+        input: toolCall.function.arguments || {},
       });
+    });
+
+    if (content.length === 0) {
+      content.push({ type: 'text', text: '' });
+    }
 
-      req.on('error', (err) => {
-        reject(err);
+    return {
+      id: this.generateMessageId(),
+      type: 'message',
+      role: 'assistant',
+      content,
+      model: originalModel,
+      stop_reason: this.mapDoneReason(response.done_reason, toolCalls.length > 0),
+      stop_sequence: null,
+      usage: this.applyCacheUsage({
+        input_tokens: response.prompt_eval_count || 0,
+        output_tokens: response.eval_count || 0,
+      }, ctx),
+    };
+  }
+
+  private async completeNative(request: ClaudeRequest, ctx: RequestContext): Promise<ClaudeResponse> {
+    const chatRequest = this.convertClaudeToOllama(request, ctx, false);
+    const response = await this.withModel(chatRequest.model, ctx, () => this.makeNativeRequest('/api/chat', chatRequest, ctx));
+    return this.convertOllamaToClaude(response as OllamaChatResponse, request.model, ctx);
+  }
+
+  private async streamNative(request: ClaudeRequest, sink: SseSink, ctx: RequestContext): Promise<void> {
+    const chatRequest = this.convertClaudeToOllama(request, ctx, true);
+    const upstream = await this.withModel(chatRequest.model, ctx, () => this.openStream(
+      `${this.getOllamaApiBase(this.getBaseUrl(ctx))}/api/chat`,
+      chatRequest,
+      this.getRequestHeaders(),
+      ctx
+    ));
+
+    await translateStream(
+      this.toOpenAIChunks(parseNDJSONStream<OllamaChatResponse>(upstream)),
+      sink,
+      this.getStreamOptions(request, ctx)
+    );
+  }
+
+  // Adapt native /api/chat chunks to OpenAI stream chunks for the shared translator.
+  // Native tool calls arrive complete, so each becomes a single tool call delta.
+  private async *toOpenAIChunks(chunks: AsyncIterable<OllamaChatResponse>): AsyncGenerator<OpenAIStreamChunk> {
+    let toolCallCount = 0;
+
+    for await (const chunk of chunks) {
+      if (chunk.error) {
+        yield { id: '', object: 'chat.completion.chunk', created: 0, model: chunk.model, choices: [], error: chunk.error };
+        return;
+      }
+
+      const toolCalls = (chunk.message?.tool_calls || []).map(toolCall => {
+        const index = toolCallCount++;
+        return {
+          index,
+          id: this.generateToolUseId(index),
+          type: 'function' as const,
+          function: {
+            name: toolCall.function.name,
+            arguments: JSON.stringify(toolCall.function.arguments || {}),
+          },
+        };
       });
 
-      req.write(JSON.stringify(openAIRequest));
-      req.end();
-    });
+      let finishReason: string | null = null;
+      if (chunk.done) {
+        finishReason = toolCallCount > 0 ? 'tool_calls' : chunk.done_reason === 'length' ? 'length' : 'stop';
+      }
+
+      yield {
+        id: '',
+        object: 'chat.completion.chunk',
+        created: 0,
+        model: chunk.model,
+        choices: [{
+          index: 0,
+          delta: {
+            content: chunk.message?.content,
+            reasoning_content: chunk.message?.thinking,
+            ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+          },
+          finish_reason: finishReason,
+        }],
+        // Without eval_count the translator counts the output itself
+        ...(chunk.done && chunk.eval_count !== undefined && {
+          usage: {
+            prompt_tokens: chunk.prompt_eval_count || 0,
+            completion_tokens: chunk.eval_count,
+            total_tokens: (chunk.prompt_eval_count || 0) + chunk.eval_count,
+          },
+        }),
+      };
+    }
   }
 
-  private async makeRequest(endpoint: string, body: unknown): Promise<unknown> {
-    const url = new URL(this.config.baseUrl);
-    const fullUrl = `${url.origin}${url.pathname}${endpoint}`.replace('//', '/');
-
-    const response = await fetch(fullUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
-      },
-      body: JSON.stringify(body),
-    });
+  async complete(request: ClaudeRequest, ctx: RequestContext): Promise<ClaudeResponse> {
+    if (this.useNativeApi()) {
+      return this.completeNative(request, ctx);
+    }
+
+    const openAIRequest = this.convertClaudeToOpenAI(request, ctx);
+    openAIRequest.stream = false;
+
+    const response = await this.withModel(this.getEffectiveModel(ctx), ctx, () =>
+      this.makeRequest('/chat/completions', openAIRequest, ctx)
+    );
+    return this.convertOpenAIToClaude(response as OpenAIResponse, request.model, ctx);
+  }
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Ollama request failed: ${response.status} ${text}`);
+  async stream(request: ClaudeRequest, sink: SseSink, ctx: RequestContext): Promise<void> {
+    if (this.useNativeApi()) {
+      return this.streamNative(request, sink, ctx);
     }
 
-    return response.json();
+    const openAIRequest = this.convertClaudeToOpenAI(request, ctx);
+    openAIRequest.stream = true;
+    openAIRequest.stream_options = { include_usage: true };
+
+    const upstream = await this.withModel(this.getEffectiveModel(ctx), ctx, () => this.openStream(
+      this.getEndpointUrl('/chat/completions', ctx),
+      openAIRequest,
+      this.getRequestHeaders(),
+      ctx
+    ));
+
+    await translateStream(parseSSEStream(upstream), sink, this.getStreamOptions(request, ctx));
+  }
+
+  // Ollama has no tokenize endpoint, so run a raw generate call that stops
+  // after a single token and read prompt_eval_count. num_predict: 0 would
+  // mean "no limit" to Ollama's runner.
+  async tokenize(text: string, ctx: RequestContext): Promise<number | undefined> {
+    const response = await this.makeNativeRequest('/api/generate', {
+      model: this.getEffectiveModel(ctx),
+      prompt: text,
+      raw: true,
+      stream: false,
+      options: { num_predict: 1 },
+      ...(this.config.keepAlive !== undefined && { keep_alive: this.config.keepAlive }),
+    }, ctx) as { prompt_eval_count?: number };
+
+    return response.prompt_eval_count;
+  }
+
+  private makeNativeRequest(endpoint: string, body: unknown, ctx: RequestContext): Promise<unknown> {
+    return this.postJson(`${this.getOllamaApiBase(this.getBaseUrl(ctx))}${endpoint}`, body, ctx);
   }
 }
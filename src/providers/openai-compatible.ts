@@ -0,0 +1,121 @@
+import { BaseProvider } from './base';
+import {
+  ClaudeRequest,
+  ClaudeResponse,
+  OpenAICompatibleConfig,
+  OpenAIRequest,
+  OpenAIResponse,
+  RequestContext,
+  SseSink,
+} from '../types';
+import { UpstreamError } from '../errors';
+import { parseSSEStream, translateStream } from './stream-translator';
+import { getCacheSlot } from '../prompt-cache';
+
+// Generic provider for any server speaking OpenAI /chat/completions
+// (vLLM, llama.cpp server, LocalAI, text-generation-webui, ...)
+export class OpenAICompatibleProvider extends BaseProvider {
+  protected declare config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super(config);
+  }
+
+  protected get displayName(): string {
+    return this.config.name;
+  }
+
+  protected getRequestHeaders(): Record<string, string> {
+    return {
+      ...super.getRequestHeaders(),
+      ...this.config.headers,
+    };
+  }
+
+  // Add backend-specific knobs and drop request fields the server has
+  // declared it does not support
+  private applyCapabilities(openAIRequest: OpenAIRequest, request: ClaudeRequest, ctx: RequestContext): OpenAIRequest {
+    const capabilities = this.config.capabilities || {};
+
+    // vLLM and llama.cpp toggle reasoning for Qwen3-style templates through chat_template_kwargs
+    if (request.thinking) {
+      openAIRequest.chat_template_kwargs = { enable_thinking: request.thinking.type === 'enabled' };
+    }
+
+    // Keep a cached prompt prefix on the llama.cpp slot that already holds it
+    if (this.config.slots && ctx.promptCache) {
+      openAIRequest.cache_prompt = true;
+      openAIRequest.id_slot = getCacheSlot(ctx.promptCache, this.config.slots);
+    }
+
+    if (capabilities.tools === false) {
+      delete openAIRequest.tools;
+      delete openAIRequest.tool_choice;
+    }
+    if (capabilities.topK === false) {
+      delete openAIRequest.top_k;
+    }
+    if (capabilities.thinking === false) {
+      delete openAIRequest.reasoning_effort;
+      delete openAIRequest.chat_template_kwargs;
+    }
+
+    return openAIRequest;
+  }
+
+  async complete(request: ClaudeRequest, ctx: RequestContext): Promise<ClaudeResponse> {
+    const openAIRequest = this.applyCapabilities(this.convertClaudeToOpenAI(request, ctx), request, ctx);
+    openAIRequest.stream = false;
+
+    const response = await this.makeRequest('/chat/completions', openAIRequest, ctx);
+    return this.convertOpenAIToClaude(response as OpenAIResponse, request.model, ctx);
+  }
+
+  async stream(request: ClaudeRequest, sink: SseSink, ctx: RequestContext): Promise<void> {
+    const openAIRequest = this.applyCapabilities(this.convertClaudeToOpenAI(request, ctx), request, ctx);
+    openAIRequest.stream = true;
+    if (this.config.capabilities?.streamUsage !== false) {
+      openAIRequest.stream_options = { include_usage: true };
+    }
+
+    const upstream = await this.openStream(
+      this.getEndpointUrl('/chat/completions', ctx),
+      openAIRequest,
+      this.getRequestHeaders(),
+      ctx
+    );
+
+    await translateStream(parseSSEStream(upstream), sink, this.getStreamOptions(request, ctx));
+  }
+
+  // llama.cpp server and vLLM both expose /tokenize at the server root
+  async tokenize(text: string, ctx: RequestContext): Promise<number | undefined> {
+    const response = await fetch(`${new URL(this.getBaseUrl(ctx)).origin}/tokenize`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.getRequestHeaders(),
+      },
+      // llama.cpp reads `content`, vLLM reads `prompt`; template tokens are counted separately
+      body: JSON.stringify({
+        model: this.getEffectiveModel(ctx),
+        content: text,
+        prompt: text,
+        add_special: false,
+        add_special_tokens: false,
+      }),
+      signal: this.getAbortSignal(ctx),
+    });
+
+    if (response.status === 404 || response.status === 405) {
+      return undefined;
+    }
+    if (!response.ok) {
+      const body = await response.text();
+      throw new UpstreamError(`${this.config.name} tokenize failed: ${response.status} ${body}`, response.status, body);
+    }
+
+    const data = await response.json() as { count?: number; tokens?: unknown[] };
+    return data.count ?? data.tokens?.length;
+  }
+}
@@ -0,0 +1,367 @@
+import { StringDecoder } from 'string_decoder';
+import chalk from 'chalk';
+import { ClaudeUsage, OpenAIStreamChunk, OpenAIStreamToolCall, PromptCacheContext, SseSink } from '../types';
+import { estimateTokens } from '../tokens';
+import { createThinkingSignature, ThinkTagParser } from './thinking';
+
+export type SSEWriter = (event: string, data: unknown) => void;
+
+export interface StreamTranslatorOptions {
+  messageId: string;
+  model: string;
+  // Prompt size sent in message_start, before the backend reports its own count
+  inputTokens?: number;
+  // Counts the generated text when the backend reports no usage
+  countTokens?: (text: string) => Promise<number | undefined>;
+  promptCache?: PromptCacheContext;
+}
+
+interface StreamingToolCall {
+  id: string;
+  name: string;
+  // Argument fragments received before the tool_use block could be started
+  pendingArguments: string;
+  started: boolean;
+  closed: boolean;
+}
+
+export function mapFinishReason(reason: string | null | undefined): string {
+  switch (reason) {
+    case 'stop':
+      return 'end_turn';
+    case 'length':
+      return 'max_tokens';
+    case 'content_filter':
+      return 'stop_sequence';
+    case 'tool_calls':
+      return 'tool_use';
+    default:
+      return 'end_turn';
+  }
+}
+
+// Turns OpenAI chat completion chunks into Anthropic Messages SSE events.
+// Content blocks are emitted strictly in order: text and thinking switch
+// blocks when their type changes, tool_use blocks start as soon as the tool
+// name is known and receive argument fragments as they arrive.
+export class StreamTranslator {
+  private openBlock: 'text' | 'thinking' | 'tool_use' | null = null;
+  private openToolCall?: StreamingToolCall;
+  private blockIndex = 0;
+  private hasContentBlocks = false;
+  private thinkingContent = '';
+  private thinkParser = new ThinkTagParser();
+  private toolCalls = new Map<number, StreamingToolCall>();
+  private stopReason = 'end_turn';
+  private inputTokens?: number;
+  private outputTokens?: number;
+  // Prompt tokens the backend reused from its KV cache
+  private cachedTokens?: number;
+  // Everything generated, for counting output when the backend sends no usage
+  private outputText = '';
+  private finished = false;
+
+  constructor(private write: SSEWriter, private options: StreamTranslatorOptions) {}
+
+  start(): void {
+    this.write('message_start', {
+      type: 'message_start',
+      message: {
+        id: this.options.messageId,
+        type: 'message',
+        role: 'assistant',
+        content: [],
+        model: this.options.model,
+        stop_reason: null,
+        stop_sequence: null,
+        usage: this.applyCacheUsage({ input_tokens: this.options.inputTokens || 0, output_tokens: 0 }),
+      },
+    });
+  }
+
+  push(chunk: OpenAIStreamChunk): void {
+    if (this.finished) return;
+
+    if (chunk.error) {
+      this.fail(typeof chunk.error === 'string' ? chunk.error : chunk.error.message || 'Upstream stream error');
+      return;
+    }
+
+    const choice = chunk.choices?.[0];
+    const content = choice?.delta?.content;
+    const reasoning = choice?.delta?.reasoning_content || choice?.delta?.reasoning;
+
+    // Handle reasoning sent in a separate field
+    if (reasoning) {
+      this.outputText += reasoning;
+      this.writeContent('thinking', reasoning);
+    }
+
+    // Handle text content, splitting out inline <think> reasoning
+    if (content) {
+      this.outputText += content;
+      for (const segment of this.thinkParser.feed(content)) {
+        this.writeContent(segment.type, segment.text);
+      }
+    }
+
+    for (const toolCallDelta of choice?.delta?.tool_calls || []) {
+      this.pushToolCall(toolCallDelta);
+    }
+
+    if (choice?.finish_reason) {
+      this.stopReason = mapFinishReason(choice.finish_reason);
+    }
+
+    if (chunk.usage) {
+      this.inputTokens = chunk.usage.prompt_tokens || this.inputTokens;
+      this.outputTokens = chunk.usage.completion_tokens;
+      this.cachedTokens = chunk.usage.prompt_tokens_details?.cached_tokens ?? this.cachedTokens;
+    }
+    if (chunk.timings?.cache_n !== undefined) {
+      this.cachedTokens = chunk.timings.cache_n;
+    }
+  }
+
+  // Whether the backend left output usage for us to count
+  get needsOutputCount(): boolean {
+    return this.outputTokens === undefined;
+  }
+
+  get generatedText(): string {
+    return this.outputText;
+  }
+
+  // countedOutputTokens is used when the backend reported no usage; failing
+  // that, the generated text is estimated
+  finish(countedOutputTokens?: number): void {
+    if (this.finished) return;
+
+    for (const segment of this.thinkParser.flush()) {
+      this.writeContent(segment.type, segment.text);
+    }
+
+    // Start any tool calls whose name never arrived, then close the open block
+    for (const [, tc] of this.toolCalls) {
+      if (!tc.started) {
+        this.startToolBlock(tc);
+      }
+    }
+    this.closeBlock();
+
+    // If no content blocks were created, create an empty text block
+    if (!this.hasContentBlocks) {
+      this.write('content_block_start', {
+        type: 'content_block_start',
+        index: 0,
+        content_block: { type: 'text', text: '' },
+      });
+      this.write('content_block_stop', { type: 'content_block_stop', index: 0 });
+    }
+
+    this.write('message_delta', {
+      type: 'message_delta',
+      delta: {
+        stop_reason: this.toolCalls.size > 0 && this.stopReason === 'end_turn' ? 'tool_use' : this.stopReason,
+        stop_sequence: null,
+      },
+      usage: this.applyCacheUsage({
+        input_tokens: this.inputTokens ?? this.options.inputTokens ?? 0,
+        output_tokens: this.outputTokens ?? countedOutputTokens ?? estimateTokens(this.outputText),
+      }),
+    });
+    this.write('message_stop', { type: 'message_stop' });
+    this.finished = true;
+  }
+
+  // Report a failure to the client in-band, since headers are already sent
+  fail(message: string): void {
+    if (this.finished) return;
+
+    this.write('error', {
+      type: 'error',
+      error: { type: 'api_error', message },
+    });
+    this.finished = true;
+  }
+
+  private applyCacheUsage(usage: ClaudeUsage): ClaudeUsage {
+    return this.options.promptCache ? this.options.promptCache.applyUsage(usage, this.cachedTokens) : usage;
+  }
+
+  private pushToolCall(toolCallDelta: OpenAIStreamToolCall): void {
+    const tcIndex = toolCallDelta.index;
+
+    if (!this.toolCalls.has(tcIndex)) {
+      // New tool call starting
+      this.toolCalls.set(tcIndex, {
+        id: toolCallDelta.id || `toolu_${Date.now()}_${tcIndex}`,
+        name: '',
+        pendingArguments: '',
+        started: false,
+        closed: false,
+      });
+    }
+
+    const tc = this.toolCalls.get(tcIndex)!;
+    const argumentsFragment = toolCallDelta.function?.arguments || '';
+    this.outputText += (toolCallDelta.function?.name || '') + argumentsFragment;
+
+    if (!tc.started) {
+      if (toolCallDelta.id) tc.id = toolCallDelta.id;
+      if (toolCallDelta.function?.name) tc.name = toolCallDelta.function.name;
+      tc.pendingArguments += argumentsFragment;
+      if (tc.name) {
+        this.startToolBlock(tc);
+      }
+    } else if (argumentsFragment) {
+      if (tc.closed) {
+        // Blocks cannot be reopened once another block has started
+        console.log(chalk.yellow(`  Dropping late arguments for tool call ${tc.id}`));
+      } else {
+        this.writeToolArguments(argumentsFragment);
+      }
+    }
+  }
+
+  // Close the open block, signing thinking blocks
+  private closeBlock(): void {
+    if (!this.openBlock) return;
+
+    if (this.openBlock === 'thinking') {
+      this.write('content_block_delta', {
+        type: 'content_block_delta',
+        index: this.blockIndex,
+        delta: { type: 'signature_delta', signature: createThinkingSignature(this.thinkingContent) },
+      });
+      this.thinkingContent = '';
+    }
+
+    if (this.openToolCall) {
+      this.openToolCall.closed = true;
+      this.openToolCall = undefined;
+    }
+
+    this.write('content_block_stop', { type: 'content_block_stop', index: this.blockIndex });
+    this.blockIndex++;
+    this.openBlock = null;
+  }
+
+  // Write text or thinking, switching blocks when the type changes
+  private writeContent(type: 'text' | 'thinking', text: string): void {
+    if (this.openBlock !== type) {
+      this.closeBlock();
+      this.write('content_block_start', {
+        type: 'content_block_start',
+        index: this.blockIndex,
+        content_block: type === 'text' ? { type: 'text', text: '' } : { type: 'thinking', thinking: '' },
+      });
+      this.openBlock = type;
+      this.hasContentBlocks = true;
+    }
+
+    if (type === 'thinking') {
+      this.thinkingContent += text;
+    }
+    this.write('content_block_delta', {
+      type: 'content_block_delta',
+      index: this.blockIndex,
+      delta: type === 'text' ? { type: 'text_delta', text } : { type: 'thinking_delta', thinking: text },
+    });
+  }
+
+  // Start a tool_use block, flushing any arguments that arrived before the name
+  private startToolBlock(tc: StreamingToolCall): void {
+    this.closeBlock();
+    this.write('content_block_start', {
+      type: 'content_block_start',
+      index: this.blockIndex,
+      content_block: { type: 'tool_use', id: tc.id, name: tc.name, input: {} },
+    });
+    this.openBlock = 'tool_use';
+    this.openToolCall = tc;
+    tc.started = true;
+    this.hasContentBlocks = true;
+
+    if (tc.pendingArguments) {
+      this.writeToolArguments(tc.pendingArguments);
+      tc.pendingArguments = '';
+    }
+  }
+
+  private writeToolArguments(partialJson: string): void {
+    this.write('content_block_delta', {
+      type: 'content_block_delta',
+      index: this.blockIndex,
+      delta: { type: 'input_json_delta', partial_json: partialJson },
+    });
+  }
+}
+
+// Split a byte stream into lines, decoding UTF-8 across chunk boundaries
+async function* readLines(body: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+
+  for await (const data of body) {
+    buffer += typeof data === 'string' ? data : decoder.write(data);
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    yield* lines;
+  }
+
+  buffer += decoder.end();
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+// Parse an OpenAI-style server-sent event stream into chunks
+export async function* parseSSEStream(body: AsyncIterable<Buffer | string>): AsyncGenerator<OpenAIStreamChunk> {
+  for await (const line of readLines(body)) {
+    if (!line.startsWith('data:')) continue;
+
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') continue;
+
+    try {
+      yield JSON.parse(data) as OpenAIStreamChunk;
+    } catch {
+      // Ignore parse errors for malformed chunks
+    }
+  }
+}
+
+// Parse a newline-delimited JSON stream (Ollama's native format)
+export async function* parseNDJSONStream<T>(body: AsyncIterable<Buffer | string>): AsyncGenerator<T> {
+  for await (const line of readLines(body)) {
+    if (!line.trim()) continue;
+
+    try {
+      yield JSON.parse(line) as T;
+    } catch {
+      // Ignore parse errors for malformed chunks
+    }
+  }
+}
+
+// Drive a translator from any chunk iterator, sending Claude events to the sink
+export async function translateStream(
+  chunks: AsyncIterable<OpenAIStreamChunk>,
+  sink: SseSink,
+  options: StreamTranslatorOptions
+): Promise<void> {
+  const translator = new StreamTranslator((event, data) => sink.send(event, data), options);
+
+  translator.start();
+  for await (const chunk of chunks) {
+    translator.push(chunk);
+  }
+
+  let countedOutputTokens: number | undefined;
+  if (translator.needsOutputCount && options.countTokens && translator.generatedText) {
+    countedOutputTokens = await options.countTokens(translator.generatedText).catch(() => undefined);
+  }
+  translator.finish(countedOutputTokens);
+  sink.end();
+}
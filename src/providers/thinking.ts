@@ -0,0 +1,110 @@
+import * as crypto from 'crypto';
+import { ThinkingConfig } from '../types';
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+export interface ThinkSegment {
+  type: 'thinking' | 'text';
+  text: string;
+}
+
+// Length of the longest suffix of text that could be the start of tag
+function partialTagLength(text: string, tag: string): number {
+  for (let len = Math.min(tag.length - 1, text.length); len > 0; len--) {
+    if (tag.startsWith(text.slice(-len))) {
+      return len;
+    }
+  }
+  return 0;
+}
+
+// Splits streamed model output into thinking and text segments on <think>
+// tags, holding back partial tags that straddle chunk boundaries
+export class ThinkTagParser {
+  private buffer = '';
+  private inThinking = false;
+  // Models usually put blank lines after </think>; drop them from the answer
+  private trimNextText = false;
+
+  feed(chunk: string): ThinkSegment[] {
+    const segments: ThinkSegment[] = [];
+    this.buffer += chunk;
+
+    while (this.buffer) {
+      const tag = this.inThinking ? CLOSE_TAG : OPEN_TAG;
+      const tagIndex = this.buffer.indexOf(tag);
+
+      if (tagIndex !== -1) {
+        this.pushSegment(segments, this.buffer.slice(0, tagIndex));
+        this.buffer = this.buffer.slice(tagIndex + tag.length);
+        this.inThinking = !this.inThinking;
+        this.trimNextText = !this.inThinking;
+        continue;
+      }
+
+      const keep = partialTagLength(this.buffer, tag);
+      this.pushSegment(segments, this.buffer.slice(0, this.buffer.length - keep));
+      this.buffer = this.buffer.slice(this.buffer.length - keep);
+      break;
+    }
+
+    return segments;
+  }
+
+  flush(): ThinkSegment[] {
+    const segments: ThinkSegment[] = [];
+    this.pushSegment(segments, this.buffer);
+    this.buffer = '';
+    return segments;
+  }
+
+  private pushSegment(segments: ThinkSegment[], text: string): void {
+    if (!this.inThinking && this.trimNextText) {
+      text = text.trimStart();
+      this.trimNextText = text === '';
+    }
+    if (text) {
+      segments.push({ type: this.inThinking ? 'thinking' : 'text', text });
+    }
+  }
+}
+
+// Split a complete response into its reasoning and answer. Some templates
+// (DeepSeek-R1) open the think block in the prompt, so a lone </think>
+// means everything before it was reasoning.
+export function splitThinkTags(content: string): { thinking: string; text: string } {
+  if (!content.includes(OPEN_TAG) && content.includes(CLOSE_TAG)) {
+    const closeIndex = content.indexOf(CLOSE_TAG);
+    return {
+      thinking: content.slice(0, closeIndex).trim(),
+      text: content.slice(closeIndex + CLOSE_TAG.length).trimStart(),
+    };
+  }
+
+  const parser = new ThinkTagParser();
+  const segments = [...parser.feed(content), ...parser.flush()];
+
+  return {
+    thinking: segments.filter(s => s.type === 'thinking').map(s => s.text).join('').trim(),
+    text: segments.filter(s => s.type === 'text').map(s => s.text).join('').trimStart(),
+  };
+}
+
+// Local models do not sign their reasoning, so derive a stable signature from
+// the content; Claude Code only echoes it back on the next turn
+export function createThinkingSignature(thinking: string): string {
+  return crypto.createHash('sha256').update(thinking).digest('base64');
+}
+
+// Map Claude's thinking budget onto the reasoning_effort knob most backends accept
+export function mapThinkingBudget(thinking: ThinkingConfig): 'low' | 'medium' | 'high' {
+  const budget = thinking.budget_tokens || 0;
+  if (budget >= 16000) {
+    return 'high';
+  }
+  if (budget >= 4000) {
+    return 'medium';
+  }
+  return 'low';
+}
@@ -0,0 +1,96 @@
+import { RequestAttributes, RouteConditions, RouteRule } from './types';
+
+const compiledPatterns = new Map<string, RegExp>();
+
+// "/^claude-3-5-/i" is a regex; anything else is a glob where * matches any
+// run of characters and ? a single one. Both must match the whole name
+// unless the regex says otherwise. The g and y flags are dropped, since they
+// make test() resume from the previous match and so depend on earlier requests.
+function compilePattern(pattern: string): RegExp {
+  let regex = compiledPatterns.get(pattern);
+  if (regex) {
+    return regex;
+  }
+
+  const regexLiteral = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexLiteral) {
+    try {
+      regex = new RegExp(regexLiteral[1], regexLiteral[2].replace(/[gy]/g, ''));
+    } catch (error) {
+      throw new Error(`Invalid route rule pattern ${pattern}: ${(error as Error).message}`);
+    }
+  } else {
+    const source = pattern
+      .split('')
+      .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    regex = new RegExp(`^${source}$`);
+  }
+
+  compiledPatterns.set(pattern, regex);
+  return regex;
+}
+
+export function matchesPattern(pattern: string | undefined, model: string): boolean {
+  return pattern === undefined || compilePattern(pattern).test(model);
+}
+
+// Compile every rule's pattern up front, so an invalid one fails when the
+// config is loaded rather than on the first request it is tried against
+export function compileRulePatterns(rules: RouteRule[]): void {
+  for (const rule of rules) {
+    if (rule.match !== undefined) {
+      compilePattern(rule.match);
+    }
+  }
+}
+
+// Conditions the request does not satisfy, by name; empty when the rule applies
+export function getUnmetConditions(when: RouteConditions | undefined, attributes: RequestAttributes): string[] {
+  if (!when) {
+    return [];
+  }
+
+  const unmet: string[] = [];
+  for (const key of ['tools', 'images', 'thinking'] as const) {
+    if (when[key] !== undefined && Boolean(attributes[key]) !== when[key]) {
+      unmet.push(when[key] ? key : `no ${key}`);
+    }
+  }
+
+  const promptTokens = attributes.promptTokens;
+  if (when.minPromptTokens !== undefined && (promptTokens === undefined || promptTokens < when.minPromptTokens)) {
+    unmet.push(`minPromptTokens ${when.minPromptTokens}`);
+  }
+  if (when.maxPromptTokens !== undefined && (promptTokens === undefined || promptTokens > when.maxPromptTokens)) {
+    unmet.push(`maxPromptTokens ${when.maxPromptTokens}`);
+  }
+
+  for (const flag of when.beta || []) {
+    if (!attributes.betaFeatures?.includes(flag)) {
+      unmet.push(`beta ${flag}`);
+    }
+  }
+
+  return unmet;
+}
+
+// Rules in the order they are tried, keeping each rule's config index
+export function sortRules(rules: RouteRule[]): { rule: RouteRule; index: number }[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index);
+}
+
+// Whether any rule looks at the prompt size, which is costly to estimate
+export function rulesNeedPromptTokens(rules: RouteRule[]): boolean {
+  return rules.some(rule => rule.when?.minPromptTokens !== undefined || rule.when?.maxPromptTokens !== undefined);
+}
+
+// Short description of a rule for logs and `routes --explain`
+export function describeRule(rule: RouteRule, index: number): string {
+  const conditions = Object.entries(rule.when || {})
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : value}`)
+    .join(' ');
+  return `rule #${index + 1} (${rule.match ?? '*'}${conditions ? ` when ${conditions}` : ''})`;
+}
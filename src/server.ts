@@ -1,13 +1,37 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { Config, ClaudeRequest, TokenCountRequest, TokenCountResponse, BetaFeature } from './types';
-import { createProvider } from './providers';
-import { resolveModel } from './config';
+import {
+  Config,
+  ClaudeRequest,
+  ClaudeResponse,
+  ChatCompletionRequest,
+  CompletionRequest,
+  TokenCountResponse,
+  BatchCreateRequest,
+  BetaFeature,
+  RequestContext,
+  ResolvedRoute,
+  SseSink,
+} from './types';
+import { createProviders } from './providers';
+import { getOllamaApi, getProviderConfig, usesOllama } from './config';
+import { TokenCounter } from './token-counter';
+import { PromptCache } from './prompt-cache';
+import { loadDocumentSources } from './documents';
+import { createSseSink } from './message-stream';
+import { RequestOptions, createRequestContext, resolveRoute, runOnEndpoint, runWithFallback } from './dispatch';
+import { BatchQueue } from './batches';
+import { FileStore } from './files';
+import { createCompletionStream, toCompletionResponse, toMessagesRequest } from './completions';
+import { createChatCompletionStream, sendChatCompletionError, toChatCompletion, toClaudeRequest } from './chat-completions';
+import { HealthMonitor } from './health';
+import { validateMessagesRequest, validateTokenCountRequest } from './validation';
+import { getModel, listModels, toModelListResponse, toOpenAIModelList } from './models';
+import { AnthropicError, invalidRequestError, toAnthropicError } from './errors';
 import chalk from 'chalk';
 
-// Simple token estimation (approx 4 chars per token for English)
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
+// Names the provider/model that actually served a request, which differs
+// from the route's primary target after a fallback
+const SERVED_BY_HEADER = 'x-sona-served-by';
 
 // Parse beta header into array of features
 function parseBetaHeader(header: string | undefined): BetaFeature[] {
@@ -15,9 +39,111 @@ function parseBetaHeader(header: string | undefined): BetaFeature[] {
   return header.split(',').map(f => f.trim()) as BetaFeature[];
 }
 
+function getBetaFeatures(req: Request): BetaFeature[] {
+  return parseBetaHeader(req.headers['anthropic-beta'] as string | undefined);
+}
+
+// OpenAI SDKs always send a bearer token and never Anthropic's version header
+function isOpenAIClient(req: Request): boolean {
+  return !req.headers['anthropic-version'] && Boolean(req.headers.authorization?.startsWith('Bearer '));
+}
+
+// Build the routing context for an incoming HTTP request
+function createHttpRequestContext(
+  config: Config,
+  req: Request,
+  route: ResolvedRoute,
+  options: RequestOptions = {}
+): RequestContext {
+  return createRequestContext(config, route, {
+    requestId: req.headers['x-request-id'] as string | undefined,
+    betaFeatures: getBetaFeatures(req),
+    ...options,
+  });
+}
+
+// Abort upstream work once the client goes away (e.g. Esc in Claude Code).
+// The request's own 'close' event fires as soon as the body has been read,
+// so the response is what tells us the connection dropped early.
+function watchClientDisconnect(res: Response): AbortController {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller;
+}
+
+function logCancelled(req: Request, ctx: RequestContext | undefined, startedAt: number): void {
+  console.log(
+    chalk.yellow('Request cancelled by client'),
+    chalk.gray(`(${req.path}${ctx ? `, id: ${ctx.requestId}` : ''}, after ${Date.now() - startedAt}ms)`)
+  );
+}
+
+// Send an error in Anthropic's format. Once a stream has started the status
+// line is already sent, so the error goes out as an SSE error event instead.
+function sendError(res: Response, error: unknown): void {
+  const anthropicError = toAnthropicError(error);
+
+  if (res.headersSent) {
+    if (!res.writableEnded) {
+      res.write(`event: error\ndata: ${JSON.stringify(anthropicError.toJSON())}\n\n`);
+      res.end();
+    }
+    return;
+  }
+
+  res.status(anthropicError.status).json(anthropicError.toJSON());
+}
+
+// How an endpoint's request and response formats map onto the Messages API
+interface MessageEndpointFormat {
+  toRequest(body: unknown, config: Config): ClaudeRequest;
+  sendResponse(res: Response, message: ClaudeResponse): void;
+  // Where provider.stream() sends its Messages events
+  streamTarget(res: Response, body: unknown): SseSink;
+  sendError(res: Response, error: unknown): void;
+}
+
+const MESSAGES_FORMAT: MessageEndpointFormat = {
+  toRequest: (body, config) => validateMessagesRequest(body, config.validation),
+  sendResponse: (res, message) => res.json(message),
+  streamTarget: createSseSink,
+  sendError,
+};
+
+const COMPLETIONS_FORMAT: MessageEndpointFormat = {
+  toRequest: body => toMessagesRequest(body as CompletionRequest),
+  sendResponse: (res, message) => res.json(toCompletionResponse(message)),
+  streamTarget: createCompletionStream,
+  sendError,
+};
+
+const CHAT_COMPLETIONS_FORMAT: MessageEndpointFormat = {
+  toRequest: body => toClaudeRequest(body as ChatCompletionRequest),
+  sendResponse: (res, message) => res.json(toChatCompletion(message)),
+  streamTarget: (res, body) => createChatCompletionStream(res, body as ChatCompletionRequest),
+  sendError: sendChatCompletionError,
+};
+
+// Base URL the client reached us on, for links such as a batch's results_url
+function getBaseUrl(req: Request): string {
+  return `${req.protocol}://${req.get('host')}`;
+}
+
 export function createServer(config: Config) {
   const app = express();
-  const provider = createProvider(config);
+  const providers = createProviders(config);
+  const files = new FileStore(config);
+  const batches = new BatchQueue(config, providers, files);
+  const tokenCounter = new TokenCounter(providers);
+  const promptCache = new PromptCache();
+  const health = new HealthMonitor(config, providers);
+  files.start();
+  batches.start();
+  health.start();
 
   app.use(express.json({ limit: '50mb' }));
 
@@ -40,30 +166,32 @@ export function createServer(config: Config) {
   });
 
   // Health check endpoint
-  app.get('/health', (_req: Request, res: Response) => {
-    res.json({ status: 'ok', provider: config.provider });
+  // 503 once no routable backend answers its health check, for process managers to gate on
+  app.get('/health', async (_req: Request, res: Response) => {
+    const { status, provider } = await health.getStatus();
+    res.status(status === 'unavailable' ? 503 : 200).json({ status, provider });
   });
 
-  // Claude API: Create a Message
-  app.post('/v1/messages', async (req: Request, res: Response) => {
-    try {
-      const claudeRequest = req.body as ClaudeRequest;
-      const betaHeader = req.headers['anthropic-beta'] as string | undefined;
-      const betaFeatures = parseBetaHeader(betaHeader);
+  // Reachability, latency, models and in-flight requests for every backend instance
+  app.get('/status', async (_req: Request, res: Response) => {
+    res.json(await health.getStatus());
+  });
 
-      // Resolve the model based on routing configuration
-      const resolvedModel = resolveModel(config, claudeRequest.model);
-      provider.setModelOverride(resolvedModel);
-      provider.setBetaFeatures(betaFeatures);
+  // Shared by the Messages API and the legacy Text Completions API: route the
+  // request through its fallback chain and answer in the endpoint's format
+  const handleMessageRequest = (format: MessageEndpointFormat) => async (req: Request, res: Response) => {
+    const startedAt = Date.now();
+    const disconnect = watchClientDisconnect(res);
+    let ctx: RequestContext | undefined;
 
-      console.log(
-        chalk.yellow('Routing request to'),
-        chalk.green(config.provider),
-        chalk.yellow('model:'),
-        chalk.green(resolvedModel),
-        chalk.gray(`(requested: ${claudeRequest.model})`)
+    try {
+      const claudeRequest = files.resolveFileReferences(
+        await loadDocumentSources(format.toRequest(req.body, config), config.documents, disconnect.signal)
       );
 
+      // Resolve the provider and model based on routing configuration
+      const route = resolveRoute(config, claudeRequest, getBetaFeatures(req));
+
       // Log thinking config if present
       if (claudeRequest.thinking) {
         console.log(
@@ -75,116 +203,172 @@ export function createServer(config: Config) {
         );
       }
 
-      if (claudeRequest.stream) {
-        await provider.stream(claudeRequest, res);
-      } else {
-        const response = await provider.complete(claudeRequest);
-        res.json(response);
-      }
+      await runWithFallback(config, claudeRequest, route, async target => {
+        const provider = providers.get(target.provider)!;
+        await runOnEndpoint(provider, claudeRequest, async endpoint => {
+          const cacheSession = promptCache.begin(target, claudeRequest, config.documents?.maxSize);
+          ctx = createHttpRequestContext(config, req, target, {
+            signal: disconnect.signal,
+            promptCache: cacheSession,
+            endpoint,
+          });
+          res.setHeader(SERVED_BY_HEADER, `${target.provider}/${target.model}`);
+
+          console.log(
+            chalk.yellow('Routing request to'),
+            chalk.green(target.provider),
+            chalk.yellow('model:'),
+            chalk.green(target.model),
+            chalk.gray(`(requested: ${claudeRequest.model}, id: ${ctx.requestId}${provider.endpoints.length > 1 ? `, endpoint: ${endpoint}` : ''})`)
+          );
+
+          if (claudeRequest.stream) {
+            await provider.stream(claudeRequest, format.streamTarget(res, req.body), ctx);
+          } else {
+            const response = await provider.complete(claudeRequest, ctx);
+            format.sendResponse(res, response);
+          }
+          cacheSession?.commit();
+        });
+      }, { canRetry: () => !res.headersSent && !disconnect.signal.aborted, signal: disconnect.signal });
     } catch (error) {
+      if (disconnect.signal.aborted) {
+        logCancelled(req, ctx, startedAt);
+        return;
+      }
       console.error(chalk.red('Error processing request:'), error);
-      res.status(500).json({
-        type: 'error',
-        error: {
-          type: 'api_error',
-          message: error instanceof Error ? error.message : 'Unknown error',
-        },
+      format.sendError(res, error);
+    }
+  };
+
+  // Claude API: Create a Message
+  app.post('/v1/messages', handleMessageRequest(MESSAGES_FORMAT));
+
+  // Legacy Text Completions API, answered by the same backends
+  app.post('/v1/complete', handleMessageRequest(COMPLETIONS_FORMAT));
+
+  // OpenAI Chat Completions API, for OpenAI-speaking tools, with the same
+  // model aliases, routing and fallbacks as Claude requests
+  app.post('/v1/chat/completions', handleMessageRequest(CHAT_COMPLETIONS_FORMAT));
+
+  // Message Batches API, processed by the local job queue
+  app.post('/v1/messages/batches', (req: Request, res: Response) => {
+    try {
+      const batch = batches.create(req.body as BatchCreateRequest);
+      res.json(batches.toResponse(batch, getBaseUrl(req)));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get('/v1/messages/batches', (req: Request, res: Response) => {
+    try {
+      const result = batches.list({
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        beforeId: req.query.before_id as string | undefined,
+        afterId: req.query.after_id as string | undefined,
       });
-    } finally {
-      provider.clearModelOverride();
-      provider.clearBetaFeatures();
+      res.json(batches.toListResponse(result, getBaseUrl(req)));
+    } catch (error) {
+      sendError(res, error);
     }
   });
 
-  // Anthropic API alias (same as /v1/messages)
-  app.post('/v1/complete', async (req: Request, res: Response) => {
+  app.get('/v1/messages/batches/:id', (req: Request, res: Response) => {
     try {
-      const claudeRequest = req.body as ClaudeRequest;
-      const betaHeader = req.headers['anthropic-beta'] as string | undefined;
-      const betaFeatures = parseBetaHeader(betaHeader);
+      res.json(batches.toResponse(batches.get(req.params.id), getBaseUrl(req)));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
 
-      // Resolve the model based on routing configuration
-      const resolvedModel = resolveModel(config, claudeRequest.model);
-      provider.setModelOverride(resolvedModel);
-      provider.setBetaFeatures(betaFeatures);
+  app.post('/v1/messages/batches/:id/cancel', (req: Request, res: Response) => {
+    try {
+      res.json(batches.toResponse(batches.cancel(req.params.id), getBaseUrl(req)));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
 
-      console.log(
-        chalk.yellow('Routing request to'),
-        chalk.green(config.provider),
-        chalk.yellow('model:'),
-        chalk.green(resolvedModel),
-        chalk.gray(`(requested: ${claudeRequest.model})`)
-      );
+  app.delete('/v1/messages/batches/:id', (req: Request, res: Response) => {
+    try {
+      res.json(batches.delete(req.params.id));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
 
-      if (claudeRequest.stream) {
-        await provider.stream(claudeRequest, res);
-      } else {
-        const response = await provider.complete(claudeRequest);
-        res.json(response);
-      }
+  app.get('/v1/messages/batches/:id/results', (req: Request, res: Response) => {
+    try {
+      const resultsPath = batches.getResultsPath(req.params.id);
+      res.type('application/x-jsonl');
+      res.sendFile(resultsPath);
     } catch (error) {
-      console.error(chalk.red('Error processing request:'), error);
-      res.status(500).json({
-        type: 'error',
-        error: {
-          type: 'api_error',
-          message: error instanceof Error ? error.message : 'Unknown error',
-        },
-      });
-    } finally {
-      provider.clearModelOverride();
-      provider.clearBetaFeatures();
+      sendError(res, error);
     }
   });
 
-  // Token counting endpoint
-  app.post('/v1/messages/count_tokens', (req: Request, res: Response) => {
+  // Files API, stored in a local directory
+  app.post('/v1/files', express.raw({ type: 'multipart/form-data', limit: files.maxUploadSize }), (req: Request, res: Response) => {
     try {
-      const countRequest = req.body as TokenCountRequest;
-      let totalTokens = 0;
-
-      // Count system tokens
-      if (countRequest.system) {
-        if (typeof countRequest.system === 'string') {
-          totalTokens += estimateTokens(countRequest.system);
-        } else {
-          for (const block of countRequest.system) {
-            totalTokens += estimateTokens(block.text);
-          }
-        }
-      }
+      res.json(files.upload(req.body as Buffer, req.headers['content-type']));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
 
-      // Count message tokens
-      for (const msg of countRequest.messages) {
-        if (typeof msg.content === 'string') {
-          totalTokens += estimateTokens(msg.content);
-        } else {
-          for (const block of msg.content) {
-            if (block.type === 'text') {
-              totalTokens += estimateTokens(block.text);
-            } else if (block.type === 'tool_use') {
-              totalTokens += estimateTokens(JSON.stringify(block.input));
-              totalTokens += estimateTokens(block.name);
-            } else if (block.type === 'tool_result') {
-              const content = typeof block.content === 'string'
-                ? block.content
-                : block.content.map((b: { text: string }) => b.text).join('');
-              totalTokens += estimateTokens(content);
-            }
-          }
-        }
-        // Add overhead for role
-        totalTokens += 4;
-      }
+  app.get('/v1/files', (req: Request, res: Response) => {
+    try {
+      res.json(files.list({
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        beforeId: req.query.before_id as string | undefined,
+        afterId: req.query.after_id as string | undefined,
+      }));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
 
-      // Count tool definitions
-      if (countRequest.tools) {
-        for (const tool of countRequest.tools) {
-          totalTokens += estimateTokens(tool.name);
-          totalTokens += estimateTokens(tool.description);
-          totalTokens += estimateTokens(JSON.stringify(tool.input_schema));
-        }
-      }
+  app.get('/v1/files/:id', (req: Request, res: Response) => {
+    try {
+      res.json(files.get(req.params.id));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.get('/v1/files/:id/content', (req: Request, res: Response) => {
+    try {
+      const metadata = files.get(req.params.id);
+      res.type(metadata.mime_type);
+      res.attachment(metadata.filename);
+      res.sendFile(files.getContentPath(metadata.id));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.delete('/v1/files/:id', (req: Request, res: Response) => {
+    try {
+      res.json(files.delete(req.params.id));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Token counting endpoint, using the routed model's tokenizer when the backend has one
+  app.post('/v1/messages/count_tokens', async (req: Request, res: Response) => {
+    const disconnect = watchClientDisconnect(res);
+
+    try {
+      const countRequest = files.resolveFileReferences(
+        await loadDocumentSources(validateTokenCountRequest(req.body, config.validation), config.documents, disconnect.signal)
+      );
+      const route = resolveRoute(config, countRequest, getBetaFeatures(req));
+      const count = await runOnEndpoint(providers.get(route.provider)!, countRequest, endpoint => {
+        const ctx = createHttpRequestContext(config, req, route, { signal: disconnect.signal, endpoint });
+        return tokenCounter.countRequest(countRequest, route, ctx);
+      });
 
       // Add thinking budget overhead estimate
       if (countRequest.thinking?.type === 'enabled' && countRequest.thinking.budget_tokens) {
@@ -196,76 +380,48 @@ export function createServer(config: Config) {
       }
 
       const response: TokenCountResponse = {
-        input_tokens: totalTokens,
+        input_tokens: count.tokens,
       };
 
-      console.log(chalk.green('  Estimated tokens:'), chalk.white(totalTokens));
+      console.log(
+        chalk.green(count.exact ? '  Counted tokens:' : '  Estimated tokens:'),
+        chalk.white(count.tokens),
+        chalk.gray(`(${route.provider}/${route.model})`)
+      );
       res.json(response);
     } catch (error) {
+      if (disconnect.signal.aborted) return;
       console.error(chalk.red('Error counting tokens:'), error);
-      res.status(500).json({
-        type: 'error',
-        error: {
-          type: 'api_error',
-          message: error instanceof Error ? error.message : 'Unknown error',
-        },
-      });
+      sendError(res, error);
     }
   });
 
-  // Models endpoint (for compatibility)
-  app.get('/v1/models', (_req: Request, res: Response) => {
-    const now = Math.floor(Date.now() / 1000);
-    res.json({
-      object: 'list',
-      data: [
-        // Claude 4 models
-        {
-          id: 'claude-opus-4-20250514',
-          object: 'model',
-          created: now,
-          owned_by: 'sona-router',
-        },
-        {
-          id: 'claude-sonnet-4-20250514',
-          object: 'model',
-          created: now,
-          owned_by: 'sona-router',
-        },
-        // Claude 3.5 models
-        {
-          id: 'claude-3-5-sonnet-20241022',
-          object: 'model',
-          created: now,
-          owned_by: 'sona-router',
-        },
-        {
-          id: 'claude-3-5-haiku-20241022',
-          object: 'model',
-          created: now,
-          owned_by: 'sona-router',
-        },
-        // Claude 3 models
-        {
-          id: 'claude-3-opus-20240229',
-          object: 'model',
-          created: now,
-          owned_by: 'sona-router',
-        },
-        {
-          id: 'claude-3-sonnet-20240229',
-          object: 'model',
-          created: now,
-          owned_by: 'sona-router',
-        },
-        {
-          id: 'claude-3-haiku-20240307',
-          object: 'model',
-          created: now,
-          owned_by: 'sona-router',
-        },
-      ],
-    });
+  // Models API: the Claude model ids the routing configuration maps
+  app.get('/v1/models', async (req: Request, res: Response) => {
+    try {
+      const models = listModels(config, config.listBackendModels ? await health.getBackendModels() : undefined);
+      if (isOpenAIClient(req)) {
+        res.json(toOpenAIModelList(models));
+        return;
+      }
+      res.json(toModelListResponse(models, {
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+        beforeId: req.query.before_id as string | undefined,
+        afterId: req.query.after_id as string | undefined,
+      }));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Model ids may be provider/model, so the id is everything after /v1/models/
+  app.get(/^\/v1\/models\/(.+)$/, async (req: Request, res: Response) => {
+    try {
+      const models = listModels(config, config.listBackendModels ? await health.getBackendModels() : undefined);
+      res.json(getModel(config, req.params[0], models));
+    } catch (error) {
+      sendError(res, error);
+    }
   });
 
   // Catch-all for unknown routes
@@ -273,22 +429,26 @@ export function createServer(config: Config) {
     res.status(404).json({
       type: 'error',
       error: {
-        type: 'not_found',
+        type: 'not_found_error',
         message: 'The requested endpoint does not exist',
       },
     });
   });
 
   // Error handler
-  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+  app.use((err: Error & { type?: string }, _req: Request, res: Response, _next: NextFunction) => {
+    // Body parser failures are the client's fault
+    if (err.type === 'entity.parse.failed') {
+      sendError(res, invalidRequestError(`Invalid JSON body: ${err.message}`));
+      return;
+    }
+    if (err.type === 'entity.too.large') {
+      sendError(res, new AnthropicError('request_too_large', 413, 'Request exceeds the maximum allowed size'));
+      return;
+    }
+
     console.error(chalk.red('Unhandled error:'), err);
-    res.status(500).json({
-      type: 'error',
-      error: {
-        type: 'api_error',
-        message: 'An internal error occurred',
-      },
-    });
+    sendError(res, new AnthropicError('api_error', 500, 'An internal error occurred'));
   });
 
   return app;
@@ -296,15 +456,32 @@ export function createServer(config: Config) {
 
 export function startServer(config: Config): void {
   const app = createServer(config);
+  const providerConfig = getProviderConfig(config, config.provider);
 
   app.listen(config.port, () => {
     console.log(chalk.bold.green('\nSona Router Started'));
     console.log(chalk.gray('─'.repeat(40)));
     console.log(chalk.cyan('Provider:   '), chalk.white(config.provider));
-    console.log(chalk.cyan('Model:      '), chalk.white(config[config.provider].model));
-    console.log(chalk.cyan('Backend URL:'), chalk.white(config[config.provider].baseUrl));
+    console.log(chalk.cyan('Model:      '), chalk.white(providerConfig.model));
+    if (providerConfig.endpoints && providerConfig.endpoints.length > 0) {
+      const strategy = providerConfig.loadBalancing?.strategy || 'round-robin';
+      console.log(chalk.cyan('Endpoints:  '), chalk.white(providerConfig.endpoints.join(', ')), chalk.gray(`(${strategy})`));
+    } else {
+      console.log(chalk.cyan('Backend URL:'), chalk.white(providerConfig.baseUrl));
+    }
+    if (config.routes && Object.keys(config.routes).length > 0) {
+      console.log(chalk.cyan('Routes:     '), chalk.white(`${Object.keys(config.routes).length} cross-provider`));
+    }
+    if (config.openaiCompatible && config.openaiCompatible.length > 0) {
+      console.log(chalk.cyan('Backends:   '), chalk.white(config.openaiCompatible.map(e => e.name).join(', ')));
+    }
     console.log(chalk.cyan('Listening:  '), chalk.white(`http://localhost:${config.port}`));
     console.log(chalk.gray('─'.repeat(40)));
+    if (usesOllama(config) && getOllamaApi(config.ollama) === 'openai') {
+      console.log(chalk.yellow('\nOllama is reached through its OpenAI-compatible API, which cannot set num_ctx.'));
+      console.log(chalk.yellow('Prompts longer than the model\'s default context are truncated without an error.'));
+      console.log(chalk.yellow('Set ollama.api: native (or ollama.contextWindow) to send the context size.'));
+    }
     console.log(chalk.yellow('\nSet ANTHROPIC_BASE_URL to:'));
     console.log(chalk.white(`  http://localhost:${config.port}\n`));
   });
@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import chalk from 'chalk';
+import { Provider, RequestContext, ResolvedRoute, TokenCountRequest } from './types';
+import { ProviderRegistry } from './providers';
+import {
+  estimateTokens,
+  countMessageMediaTokens,
+  countTemplateTokens,
+  renderMessageText,
+  renderSystemText,
+  renderToolsText,
+} from './tokens';
+
+const MAX_CACHE_ENTRIES = 5000;
+
+// Backend tokenize calls in flight for one request. On Ollama each call is an
+// /api/generate request, so an uncached conversation must not fan out at once.
+const MAX_CONCURRENT_TOKENIZE = 4;
+
+export interface TokenCount {
+  tokens: number;
+  // Whether every text part was counted by the backend's tokenizer
+  exact: boolean;
+}
+
+// Like Promise.all(items.map(fn)), with at most `limit` calls running at a time
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Counts prompt tokens with the routed backend's tokenizer, falling back to
+// the estimate in tokens.ts. Counts are cached per message, since Claude
+// Code re-counts the whole conversation on every turn.
+export class TokenCounter {
+  private providers: ProviderRegistry;
+  private cache = new Map<string, number>();
+  // Backends that turned out to have no tokenizer, so they are not asked again
+  private unsupported = new Set<Provider>();
+
+  constructor(providers: ProviderRegistry) {
+    this.providers = providers;
+  }
+
+  async countRequest(request: TokenCountRequest, route: ResolvedRoute, ctx: RequestContext): Promise<TokenCount> {
+    const texts: string[] = request.messages.map(msg => renderMessageText(msg, ctx.documentMaxSize));
+    if (request.system) {
+      texts.push(renderSystemText(request.system));
+    }
+    if (request.tools && request.tools.length > 0) {
+      texts.push(renderToolsText(request.tools));
+    }
+
+    const counts = await mapWithConcurrency(texts, MAX_CONCURRENT_TOKENIZE, text => this.countText(text, route, ctx));
+
+    let tokens = countTemplateTokens(request, route.model);
+    for (const msg of request.messages) {
+      tokens += countMessageMediaTokens(msg, ctx.documentMaxSize);
+    }
+    for (const count of counts) {
+      tokens += count.tokens;
+    }
+
+    return { tokens, exact: counts.every(count => count.exact) };
+  }
+
+  private async countText(text: string, route: ResolvedRoute, ctx: RequestContext): Promise<TokenCount> {
+    if (text.length === 0) {
+      return { tokens: 0, exact: true };
+    }
+
+    const key = createHash('sha256').update(`${route.provider}/${route.model}\0${text}`).digest('base64');
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      // Re-insert so the Map's insertion order doubles as LRU order
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return { tokens: cached, exact: true };
+    }
+
+    const tokens = await this.tokenizeWithBackend(text, route, ctx);
+    if (tokens === undefined) {
+      return { tokens: estimateTokens(text), exact: false };
+    }
+
+    this.cache.set(key, tokens);
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return { tokens, exact: true };
+  }
+
+  private async tokenizeWithBackend(text: string, route: ResolvedRoute, ctx: RequestContext): Promise<number | undefined> {
+    if (this.unsupported.has(route.provider)) {
+      return undefined;
+    }
+
+    try {
+      const tokens = await this.providers.get(route.provider)!.tokenize(text, ctx);
+      if (tokens === undefined && !this.unsupported.has(route.provider)) {
+        this.unsupported.add(route.provider);
+        console.log(chalk.gray(`  ${route.provider} has no tokenizer endpoint, using estimates`));
+      }
+      return tokens;
+    } catch (error) {
+      console.log(chalk.gray(`  Tokenize failed on ${route.provider}, using estimate:`), (error as Error).message);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import {
+  ClaudeContentBlock,
+  ClaudeDocumentBlock,
+  ClaudeImageBlock,
+  ClaudeMessage,
+  ClaudeSystem,
+  ClaudeTool,
+  TokenCountRequest,
+} from './types';
+import { renderDocument } from './documents';
+
+// Pre-tokenizer split used by GPT-style BPE tokenizers (and, with small
+// differences, by Llama 3, Qwen and Mistral's tekken): contractions, words
+// with their leading space, digit runs, punctuation runs and whitespace
+const PRE_TOKENIZE_PATTERN = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+// Approximate BPE token count for text when the backend cannot tokenize it.
+// Common words are single tokens and longer identifiers split every few
+// characters; digits group in threes; CJK is roughly a token per character.
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(PRE_TOKENIZE_PATTERN)) {
+    const word = piece.trimStart();
+    if (word.length === 0) {
+      // Whitespace runs such as indentation merge into a few tokens
+      tokens += Math.ceil(piece.length / 8);
+    } else if (/^\p{L}/u.test(word)) {
+      const cjk = word.match(CJK_PATTERN)?.length || 0;
+      tokens += cjk + Math.ceil((word.length - cjk) / 5);
+    } else if (/^\p{N}/u.test(word)) {
+      tokens += Math.ceil(word.length / 3);
+    } else {
+      tokens += Math.ceil(word.length / 2);
+    }
+  }
+
+  return tokens;
+}
+
+// Anthropic's image sizing: about width * height / 750, with images scaled
+// down to roughly 1.15 megapixels first
+const MAX_IMAGE_TOKENS = 1600;
+
+function readImageSize(data: Buffer): { width: number; height: number } | undefined {
+  // PNG: IHDR width/height follow the 8-byte signature and chunk header
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  // GIF: little-endian logical screen size
+  if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return undefined;
+}
+
+export function estimateImageTokens(block: ClaudeImageBlock): number {
+  if (block.source.type !== 'base64' || !block.source.data) {
+    return MAX_IMAGE_TOKENS;
+  }
+  const size = readImageSize(Buffer.from(block.source.data, 'base64'));
+  if (!size) {
+    return MAX_IMAGE_TOKENS;
+  }
+  return Math.min(Math.ceil((size.width * size.height) / 750), MAX_IMAGE_TOKENS);
+}
+
+// Anthropic bills PDF pages at roughly 1,500-3,000 tokens of text each
+const TOKENS_PER_PDF_PAGE = 1500;
+
+export function estimateDocumentTokens(block: ClaudeDocumentBlock): number {
+  if (block.source.type !== 'base64' || !block.source.data) {
+    return 0;
+  }
+  const data = Buffer.from(block.source.data, 'base64');
+  if (block.source.media_type === 'application/pdf') {
+    const pages = data.toString('latin1').match(/\/Type\s*\/Page(?!s)/g)?.length || 0;
+    if (pages > 0) {
+      return pages * TOKENS_PER_PDF_PAGE;
+    }
+  }
+  return Math.ceil(data.length / 8);
+}
+
+// documentMaxSize (documents.maxSize) caps how far a PDF may inflate while
+// it is rendered for counting, as it does when the request is converted
+function renderBlockText(block: ClaudeContentBlock, documentMaxSize?: number): string {
+  switch (block.type) {
+    case 'text':
+      return block.text;
+    case 'tool_use':
+      return `${block.name}${JSON.stringify(block.input)}`;
+    case 'tool_result':
+      if (typeof block.content === 'string') {
+        return block.content;
+      }
+      return block.content.map(b => (b.type === 'text' ? b.text : '')).join('');
+    case 'thinking':
+      return block.thinking;
+    case 'document':
+      // The index only shifts the count by a token or so
+      return renderDocument(block, 1, { maxSize: documentMaxSize }).text;
+    default:
+      return '';
+  }
+}
+
+function countBlockMediaTokens(block: ClaudeContentBlock, documentMaxSize?: number): number {
+  if (block.type === 'image') {
+    return estimateImageTokens(block);
+  }
+  if (block.type === 'document' && !renderDocument(block, 1, { maxSize: documentMaxSize }).hasText) {
+    // Scanned and unreadable documents are estimated by size
+    return estimateDocumentTokens(block);
+  }
+  if (block.type === 'tool_result' && typeof block.content !== 'string') {
+    return block.content.reduce((sum, b) => sum + (b.type === 'image' ? estimateImageTokens(b) : 0), 0);
+  }
+  return 0;
+}
+
+export function countBlockTokens(block: ClaudeContentBlock, documentMaxSize?: number): number {
+  return estimateTokens(renderBlockText(block, documentMaxSize)) + countBlockMediaTokens(block, documentMaxSize);
+}
+
+// The text a backend tokenizer sees for a message, without the chat template
+export function renderMessageText(message: ClaudeMessage, documentMaxSize?: number): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  return message.content.map(block => renderBlockText(block, documentMaxSize)).join('\n');
+}
+
+// Images and documents without a text layer, which cannot go through a text tokenizer
+export function countMessageMediaTokens(message: ClaudeMessage, documentMaxSize?: number): number {
+  if (typeof message.content === 'string') {
+    return 0;
+  }
+  return message.content.reduce((sum, block) => sum + countBlockMediaTokens(block, documentMaxSize), 0);
+}
+
+export function renderSystemText(system: ClaudeSystem): string {
+  return typeof system === 'string' ? system : system.map(block => block.text).join('\n\n');
+}
+
+export function renderToolsText(tools: ClaudeTool[]): string {
+  return tools
+    .map(tool => JSON.stringify({ name: tool.name, description: tool.description, parameters: tool.input_schema }))
+    .join('\n');
+}
+
+// Tokens a model's chat template adds around the content: role markers per
+// message, the assistant header the reply is primed with, and the
+// instructions templates wrap around tool definitions
+export interface ChatTemplateOverhead {
+  perMessage: number;
+  perRequest: number;
+  tools: number;
+}
+
+const CHAT_TEMPLATES: [RegExp, ChatTemplateOverhead][] = [
+  // <|im_start|>role\n...<|im_end|>\n
+  [/qwen|chatml|hermes|yi-|openchat|dolphin/i, { perMessage: 5, perRequest: 3, tools: 80 }],
+  // <|start_header_id|>role<|end_header_id|>\n\n...<|eot_id|>
+  [/llama-?3/i, { perMessage: 5, perRequest: 5, tools: 60 }],
+  // [INST]...[/INST]...</s>
+  [/mistral|mixtral|codestral|devstral/i, { perMessage: 3, perRequest: 1, tools: 10 }],
+  // <start_of_turn>role\n...<end_of_turn>\n
+  [/gemma/i, { perMessage: 5, perRequest: 3, tools: 40 }],
+  // <｜User｜>...<｜Assistant｜>...<｜end▁of▁sentence｜>
+  [/deepseek/i, { perMessage: 2, perRequest: 2, tools: 40 }],
+  // <|user|>\n...<|end|>\n
+  [/phi/i, { perMessage: 4, perRequest: 2, tools: 40 }],
+];
+
+const DEFAULT_TEMPLATE: ChatTemplateOverhead = { perMessage: 4, perRequest: 3, tools: 40 };
+
+export function getChatTemplateOverhead(model: string): ChatTemplateOverhead {
+  const match = CHAT_TEMPLATES.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : DEFAULT_TEMPLATE;
+}
+
+// Template tokens for a whole request: one turn per message plus the system turn
+export function countTemplateTokens(request: TokenCountRequest, model: string): number {
+  const template = getChatTemplateOverhead(model);
+  const turns = request.messages.length + (request.system ? 1 : 0);
+  const tools = request.tools && request.tools.length > 0 ? template.tools : 0;
+  return turns * template.perMessage + template.perRequest + tools;
+}
+
+// Estimate the prompt size of a request for the given local model (defaults
+// to the requested model): system, messages, media, tool definitions and the
+// chat template
+export function countRequestTokens(
+  request: TokenCountRequest,
+  model: string = request.model,
+  documentMaxSize?: number
+): number {
+  let totalTokens = countTemplateTokens(request, model);
+
+  if (request.system) {
+    totalTokens += estimateTokens(renderSystemText(request.system));
+  }
+
+  for (const msg of request.messages) {
+    totalTokens += estimateTokens(renderMessageText(msg, documentMaxSize)) + countMessageMediaTokens(msg, documentMaxSize);
+  }
+
+  if (request.tools && request.tools.length > 0) {
+    totalTokens += estimateTokens(renderToolsText(request.tools));
+  }
+
+  return totalTokens;
+}
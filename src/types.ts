@@ -1,21 +1,189 @@
-export type Provider = 'lmstudio' | 'ollama';
+export type BuiltinProvider = 'lmstudio' | 'ollama';
+
+// A configured backend: one of the built-in providers or the name of an
+// openai-compatible entry from the config file
+export type Provider = BuiltinProvider | string;
 
 export interface ModelRouting {
   [claudeModel: string]: string;
 }
 
+// A cross-provider route: a "provider/model" target plus what the target can handle
+export interface RouteConfig {
+  target: string;
+  vision?: boolean;
+  // Targets tried in order when this one fails
+  fallbacks?: string[];
+}
+
+// A target, a target with options, or a fallback chain ([primary, fallback, ...])
+export type RouteEntry = string | RouteConfig | string[];
+
+export interface RoutingTable {
+  [claudeModel: string]: RouteEntry;
+}
+
+// Request attributes a routing rule can require. All listed conditions must hold.
+export interface RouteConditions {
+  tools?: boolean;
+  images?: boolean;
+  thinking?: boolean;
+  // Bounds on the estimated prompt size in tokens
+  minPromptTokens?: number;
+  maxPromptTokens?: number;
+  // anthropic-beta flags that must all be present
+  beta?: string[];
+}
+
+// A routing rule, tried before the routes and modelRouting tables
+export interface RouteRule extends RouteConfig {
+  // Glob ("claude-*-haiku*") or /regex/flags matched against the whole
+  // requested model name; omitted matches every model
+  match?: string;
+  when?: RouteConditions;
+  // Higher priorities are tried first; equal priorities keep their order (default: 0)
+  priority?: number;
+}
+
+// What is known about a request when it is routed
+export interface RequestAttributes {
+  tools?: boolean;
+  images?: boolean;
+  thinking?: boolean;
+  promptTokens?: number;
+  betaFeatures?: string[];
+}
+
+// A routing target: which configured backend serves a request and with which model
+export interface ResolvedRoute {
+  provider: Provider;
+  model: string;
+  vision?: boolean;
+  fallbacks?: ResolvedRoute[];
+}
+
 export interface ProviderConfig {
   baseUrl: string;
+  // Several instances of the same backend; when set, requests are spread over
+  // these instead of going to baseUrl
+  endpoints?: string[];
+  loadBalancing?: LoadBalancingConfig;
   model: string;
   apiKey?: string;
   modelRouting?: ModelRouting;
+  // Context window in tokens, for all models or per local model
+  contextWindow?: number;
+  contextWindows?: Record<string, number>;
+}
+
+export type LoadBalancingStrategy = 'round-robin' | 'least-outstanding' | 'sticky';
+
+export interface LoadBalancingConfig {
+  // sticky keeps a conversation on one endpoint so its KV cache is reused (default: round-robin)
+  strategy?: LoadBalancingStrategy;
+  // Consecutive failures before an endpoint is ejected (default: 3)
+  maxFailures?: number;
+  // How long an ejected endpoint is left out, in milliseconds (default: 30000)
+  ejectionTime?: number;
+}
+
+// Active health checks of every backend instance
+export interface HealthCheckConfig {
+  // Milliseconds between probes; 0 disables them (default: 30000)
+  interval?: number;
+  // Milliseconds before a probe counts as failed (default: 5000)
+  timeout?: number;
+}
+
+// Ollama can be driven through its OpenAI shim or its native /api/chat endpoint
+export interface OllamaConfig extends ProviderConfig {
+  // Defaults to native when a context size is configured, since only the
+  // native API can set num_ctx
+  api?: 'openai' | 'native';
+  keepAlive?: string | number;
+  options?: OllamaOptions;
+}
+
+// Optional features a generic OpenAI-compatible server may not support
+export interface ProviderCapabilities {
+  tools?: boolean;
+  topK?: boolean;
+  thinking?: boolean;
+  // Whether the server accepts stream_options.include_usage
+  streamUsage?: boolean;
+}
+
+// Generic OpenAI /chat/completions backend (vLLM, llama.cpp server, LocalAI, ...)
+export interface OpenAICompatibleConfig extends ProviderConfig {
+  name: string;
+  headers?: Record<string, string>;
+  capabilities?: ProviderCapabilities;
+  // llama.cpp server parallel slots (-np); prompts sharing a cached prefix stay on one slot
+  slots?: number;
 }
 
 export interface Config {
   provider: Provider;
   port: number;
+  requestTimeout?: number;
+  // What to do when a prompt does not fit the routed model's context window
+  contextOverflow?: 'warn' | 'reroute' | 'error';
+  // Ordered pattern rules with request conditions, tried before routes
+  rules?: RouteRule[];
+  // Cross-provider routes: Claude model -> "provider/model" (e.g. "ollama/qwen2.5:7b")
+  routes?: RoutingTable;
   lmstudio: ProviderConfig;
-  ollama: ProviderConfig;
+  ollama: OllamaConfig;
+  openaiCompatible?: OpenAICompatibleConfig[];
+  batches?: BatchConfig;
+  files?: FilesConfig;
+  fallback?: FallbackConfig;
+  healthCheck?: HealthCheckConfig;
+  // Also list every model the backends report in /v1/models, as provider/model ids
+  listBackendModels?: boolean;
+  documents?: DocumentConfig;
+  // How closely requests are checked against the Messages API schema (default: lenient)
+  validation?: ValidationMode;
+}
+
+// Both modes enforce the Messages API's rules; strict also rejects unknown
+// fields and block types, which lenient passes through
+export type ValidationMode = 'strict' | 'lenient';
+
+// How document blocks are turned into text for local models
+export interface DocumentConfig {
+  // On vision routes, also send the JPEG page images of scanned PDFs (default: false)
+  pageImages?: boolean;
+  // Largest document in bytes: a url download, or what a PDF's compressed
+  // streams inflate to (default: 32 MB)
+  maxSize?: number;
+  // Download url documents from loopback, private and link-local addresses
+  // too (default: false)
+  allowPrivateNetworks?: boolean;
+}
+
+// Retries before a request moves down its route's fallback chain
+export interface FallbackConfig {
+  // Extra attempts on each target (default: 0)
+  retries?: number;
+  // Delay before the first retry in milliseconds, doubled on each further retry (default: 500)
+  backoff?: number;
+}
+
+// Message Batches API job queue
+export interface BatchConfig {
+  // Where batch state and results are kept (default: .sona-router/batches)
+  dir?: string;
+  // Batch requests sent to backends at the same time (default: 1)
+  concurrency?: number;
+}
+
+// Files API storage
+export interface FilesConfig {
+  // Where uploaded files are kept (default: .sona-router/files)
+  dir?: string;
+  // Largest upload accepted, in bytes (default: 500 MB)
+  maxFileSize?: number;
 }
 
 // Beta features
@@ -27,10 +195,49 @@ export type BetaFeature =
   | 'max-tokens-3-5-sonnet-2024-07-15'
   | string;
 
+// Where provider.stream() sends its Messages stream events: the client's
+// response, or a rewriter that answers in another API's streaming format
+export interface SseSink {
+  // One Messages event; the first one starts the response
+  send(event: string, data: unknown): void;
+  end(): void;
+}
+
+// Per-request routing context, threaded through provider calls so concurrent
+// requests never share mutable state on the provider instance
+export interface RequestContext {
+  requestId: string;
+  model: string;
+  betaFeatures: BetaFeature[];
+  deadline?: number;
+  contextWindow?: number;
+  // Aborted when the client disconnects before the response is finished
+  signal?: AbortSignal;
+  // Set when the request has cache_control breakpoints
+  promptCache?: PromptCacheContext;
+  // Base URL of the backend instance picked for this request
+  endpoint?: string;
+  // Forward the page images of scanned PDFs (vision routes, see DocumentConfig)
+  documentPageImages?: boolean;
+  // Largest a PDF may inflate to (documents.maxSize)
+  documentMaxSize?: number;
+}
+
+// Prompt-cache state for one request, see prompt-cache.ts
+export interface PromptCacheContext {
+  // Identifies the cached prefix, for pinning it to a backend slot
+  slotKey: string;
+  // How long the backend should keep the model (and its KV cache) loaded
+  keepAlive: string;
+  // Split prompt usage into uncached, cache-write and cache-read tokens.
+  // cachedTokens is the backend's own count of reused prompt tokens, if any.
+  applyUsage(usage: ClaudeUsage, cachedTokens?: number): ClaudeUsage;
+}
+
 // Cache control for prompt caching
 export interface CacheControl {
   type: 'ephemeral';
-  ttl?: number;
+  ttl?: '5m' | '1h';
 }
 
 // System prompt can be string or array with cache control
@@ -61,6 +268,7 @@ export interface ClaudeMessage {
 export interface ClaudeTextBlock {
   type: 'text';
   text: string;
+  cache_control?: CacheControl;
 }
 
 export interface ClaudeToolUseBlock {
@@ -68,23 +276,27 @@ export interface ClaudeToolUseBlock {
   id: string;
   name: string;
   input: Record<string, unknown>;
+  cache_control?: CacheControl;
 }
 
 export interface ClaudeToolResultBlock {
   type: 'tool_result';
   tool_use_id: string;
-  content: string | ClaudeTextBlock[];
+  content: string | (ClaudeTextBlock | ClaudeImageBlock)[];
   is_error?: boolean;
+  cache_control?: CacheControl;
 }
 
 export interface ClaudeImageBlock {
   type: 'image';
   source: {
-    type: 'base64' | 'url';
+    type: 'base64' | 'url' | 'file';
     media_type?: string;
     data?: string;
     url?: string;
+    file_id?: string;
   };
+  cache_control?: CacheControl;
 }
 
 // Thinking content block (extended thinking)
@@ -100,15 +312,22 @@ export interface ClaudeRedactedThinkingBlock {
   data: string;
 }
 
-// Document block (for files API)
+// Document block: a PDF or plain-text file, inline or by URL or file id
 export interface ClaudeDocumentBlock {
   type: 'document';
   source: {
-    type: 'base64' | 'file';
+    // base64 PDFs and text files, plain text, a URL to download, custom
+    // content blocks, or an uploaded file
+    type: 'base64' | 'text' | 'url' | 'content' | 'file';
     media_type?: string;
     data?: string;
+    url?: string;
+    content?: string | (ClaudeTextBlock | ClaudeImageBlock)[];
     file_id?: string;
   };
+  title?: string;
+  context?: string;
+  citations?: { enabled: boolean };
   cache_control?: CacheControl;
 }
 
@@ -129,6 +348,7 @@ export interface ClaudeTool {
     properties: Record<string, unknown>;
     required?: string[];
   };
+  cache_control?: CacheControl;
 }
 
 export interface ClaudeToolChoice {
@@ -170,6 +390,29 @@ export interface ClaudeResponse {
   usage: ClaudeUsage;
 }
 
+// Legacy Text Completions API (/v1/complete): a "\n\nHuman: ...\n\nAssistant:" prompt
+export interface CompletionRequest {
+  model: string;
+  prompt: string;
+  max_tokens_to_sample: number;
+  stop_sequences?: string[];
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stream?: boolean;
+  metadata?: RequestMetadata;
+}
+
+export interface CompletionResponse {
+  id: string;
+  type: 'completion';
+  completion: string;
+  stop_reason: 'stop_sequence' | 'max_tokens' | null;
+  // The stop sequence that ended generation, if any
+  stop: string | null;
+  model: string;
+}
+
 // Token counting request/response
 export interface TokenCountRequest {
   model: string;
@@ -183,6 +426,82 @@ export interface TokenCountResponse {
   input_tokens: number;
 }
 
+// Models API types (GET /v1/models)
+export interface ModelInfo {
+  type: 'model';
+  id: string;
+  display_name: string;
+  // RFC 3339 timestamp
+  created_at: string;
+}
+
+export interface ModelListResponse {
+  data: ModelInfo[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+}
+
+export interface OpenAIModelListResponse {
+  object: 'list';
+  data: { id: string; object: 'model'; created: number; owned_by: string }[];
+}
+
+// Router status types (GET /status)
+
+// What a backend instance reports when probed
+export interface BackendInventory {
+  models: string[];
+  // Models currently in memory, for backends that report it
+  loadedModels?: string[];
+}
+
+export interface EndpointStatus {
+  url: string;
+  // Unset until the first probe finishes
+  reachable?: boolean;
+  latencyMs?: number;
+  models?: string[];
+  loadedModels?: string[];
+  error?: string;
+  checkedAt?: string;
+  inFlight: number;
+  // Passively ejected by the load balancer after repeated failures
+  ejected: boolean;
+}
+
+export interface BackendStatus {
+  name: Provider;
+  // Whether the active provider or any route sends requests here
+  routable: boolean;
+  endpoints: EndpointStatus[];
+}
+
+export interface StatusResponse {
+  // degraded: some routable backend is unreachable; unavailable: all are
+  status: 'ok' | 'degraded' | 'unavailable';
+  provider: Provider;
+  backends: BackendStatus[];
+}
+
+// Files API types
+export interface FileMetadata {
+  id: string;
+  type: 'file';
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  created_at: string;
+  downloadable: boolean;
+}
+
+export interface FileListResponse {
+  data: FileMetadata[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+}
+
 // Batch processing types
 export interface BatchRequest {
   custom_id: string;
@@ -193,10 +512,12 @@ export interface BatchCreateRequest {
   requests: BatchRequest[];
 }
 
+export type BatchProcessingStatus = 'in_progress' | 'canceling' | 'ended';
+
 export interface BatchResponse {
   id: string;
   type: 'message_batch';
-  processing_status: 'in_progress' | 'ended';
+  processing_status: BatchProcessingStatus;
   request_counts: {
     processing: number;
     succeeded: number;
@@ -207,9 +528,30 @@ export interface BatchResponse {
   ended_at: string | null;
   created_at: string;
   expires_at: string;
+  cancel_initiated_at: string | null;
+  archived_at: string | null;
   results_url: string | null;
 }
 
+export interface BatchListResponse {
+  data: BatchResponse[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+}
+
+export type BatchResultOutcome =
+  | { type: 'succeeded'; message: ClaudeResponse }
+  | { type: 'errored'; error: { type: 'error'; error: { type: string; message: string } } }
+  | { type: 'canceled' }
+  | { type: 'expired' };
+
+// One line of a batch's results JSONL
+export interface BatchResult {
+  custom_id: string;
+  result: BatchResultOutcome;
+}
+
 export interface OpenAIToolCall {
   id: string;
   type: 'function';
@@ -219,9 +561,21 @@ export interface OpenAIToolCall {
   };
 }
 
+export interface OpenAITextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface OpenAIImagePart {
+  type: 'image_url';
+  image_url: { url: string };
+}
+
+export type OpenAIContentPart = OpenAITextPart | OpenAIImagePart;
+
 export interface OpenAIMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string | null;
+  content: string | OpenAIContentPart[] | null;
   tool_calls?: OpenAIToolCall[];
   tool_call_id?: string;
 }
@@ -252,9 +606,27 @@ export interface OpenAIRequest {
   top_p?: number;
   top_k?: number;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
   tools?: OpenAITool[];
   tool_choice?: 'auto' | 'none' | 'required' | OpenAIToolChoice;
   stop?: string[];
+  reasoning_effort?: 'low' | 'medium' | 'high';
+  chat_template_kwargs?: Record<string, unknown>;
+  // llama.cpp server: reuse the KV cache, pinned to one of its parallel slots
+  cache_prompt?: boolean;
+  id_slot?: number;
+}
+
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+export interface LlamaCppTimings {
+  cache_n?: number;
+  prompt_n?: number;
 }
 
 export interface OpenAIResponse {
@@ -267,15 +639,15 @@ export interface OpenAIResponse {
     message: {
       role: string;
       content: string | null;
+      reasoning_content?: string | null;
+      reasoning?: string | null;
       tool_calls?: OpenAIToolCall[];
     };
     finish_reason: string;
   }[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage: OpenAIUsage;
+  // llama.cpp server extension: cache_n is the prompt tokens reused from the KV cache
+  timings?: LlamaCppTimings;
 }
 
 export interface OpenAIStreamToolCall {
@@ -298,13 +670,88 @@ export interface OpenAIStreamChunk {
     delta: {
       role?: string;
       content?: string | null;
+      reasoning_content?: string | null;
+      reasoning?: string | null;
       tool_calls?: OpenAIStreamToolCall[];
     };
     finish_reason: string | null;
   }[];
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
+  usage?: OpenAIUsage;
+  timings?: LlamaCppTimings;
+  // Some servers (llama.cpp, vLLM) report failures mid-stream as an error chunk
+  error?: string | { message?: string; type?: string };
+}
+
+// OpenAI Chat Completions requests sent to the router itself (/v1/chat/completions)
+export interface ChatCompletionMessage {
+  // Newer OpenAI clients send system prompts as "developer" messages
+  role: OpenAIMessage['role'] | 'developer';
+  content?: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatCompletionMessage[];
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  stop?: string | string[];
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIRequest['tool_choice'];
+  reasoning_effort?: 'low' | 'medium' | 'high';
+  // End-user id, used like metadata.user_id for sticky load balancing
+  user?: string;
+}
+
+// Native Ollama /api/chat types
+export interface OllamaOptions {
+  num_ctx?: number;
+  num_predict?: number;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop?: string[];
+  [option: string]: unknown;
+}
+
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
   };
 }
+
+export interface OllamaChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  thinking?: string;
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+export interface OllamaChatRequest {
+  model: string;
+  messages: OllamaChatMessage[];
+  stream: boolean;
+  tools?: OpenAITool[];
+  options?: OllamaOptions;
+  keep_alive?: string | number;
+  think?: boolean;
+}
+
+export interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message?: OllamaChatMessage;
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
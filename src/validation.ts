@@ -0,0 +1,399 @@
+import { ClaudeRequest, TokenCountRequest, ValidationMode } from './types';
+import { invalidRequestError } from './errors';
+
+type JsonObject = Record<string, unknown>;
+
+// Fields each object may carry in strict mode; lenient mode ignores extras
+const REQUEST_FIELDS = [
+  'model', 'max_tokens', 'messages', 'system', 'temperature', 'top_p', 'top_k',
+  'stream', 'tools', 'tool_choice', 'stop_sequences', 'thinking', 'metadata',
+];
+const TOKEN_COUNT_FIELDS = ['model', 'messages', 'system', 'tools', 'tool_choice', 'thinking'];
+
+const BLOCK_FIELDS = new Map<string, string[]>([
+  ['text', ['type', 'text', 'cache_control', 'citations']],
+  ['image', ['type', 'source', 'cache_control']],
+  ['document', ['type', 'source', 'title', 'context', 'citations', 'cache_control']],
+  ['tool_use', ['type', 'id', 'name', 'input', 'cache_control']],
+  ['tool_result', ['type', 'tool_use_id', 'content', 'is_error', 'cache_control']],
+  ['thinking', ['type', 'thinking', 'signature']],
+  ['redacted_thinking', ['type', 'data']],
+]);
+
+const IMAGE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Anthropic's smallest thinking budget
+const MIN_THINKING_BUDGET = 1024;
+
+// Only decides whether unknown fields and block types are rejected; every
+// other check applies in both modes
+interface Scope {
+  strict: boolean;
+}
+
+function fail(path: string, message: string): never {
+  throw invalidRequestError(`${path}: ${message}`);
+}
+
+function at(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): JsonObject {
+  if (!isObject(value)) fail(path, 'must be an object');
+  return value;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(path, 'must be an array');
+  return value;
+}
+
+function requireField(obj: JsonObject, key: string, path: string): unknown {
+  if (obj[key] === undefined) fail(at(path, key), 'field required');
+  return obj[key];
+}
+
+function checkString(obj: JsonObject, key: string, path: string, required = false): void {
+  const value = required ? requireField(obj, key, path) : obj[key];
+  if (value !== undefined && typeof value !== 'string') fail(at(path, key), 'must be a string');
+}
+
+function checkBoolean(obj: JsonObject, key: string, path: string): void {
+  if (obj[key] !== undefined && typeof obj[key] !== 'boolean') fail(at(path, key), 'must be a boolean');
+}
+
+function checkNumber(obj: JsonObject, key: string, path: string, range?: [number, number]): void {
+  const value = obj[key];
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(at(path, key), 'must be a number');
+  if (range && (value < range[0] || value > range[1])) {
+    fail(at(path, key), `must be between ${range[0]} and ${range[1]}`);
+  }
+}
+
+function checkInteger(obj: JsonObject, key: string, path: string, min: number, required = false): void {
+  const value = required ? requireField(obj, key, path) : obj[key];
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isInteger(value)) fail(at(path, key), 'must be an integer');
+  if (value < min) fail(at(path, key), `must be at least ${min}`);
+}
+
+function checkOneOf(obj: JsonObject, key: string, path: string, allowed: string[]): void {
+  const value = requireField(obj, key, path);
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    fail(at(path, key), `must be one of: ${allowed.join(', ')}`);
+  }
+}
+
+function checkKeys(obj: JsonObject, allowed: string[], path: string, scope: Scope): void {
+  if (!scope.strict) return;
+  const extra = Object.keys(obj).find(key => !allowed.includes(key));
+  if (extra) fail(at(path, extra), 'extra inputs are not permitted');
+}
+
+function checkCacheControl(obj: JsonObject, path: string, scope: Scope): void {
+  if (obj.cache_control === undefined) return;
+  const cacheControl = expectObject(obj.cache_control, at(path, 'cache_control'));
+  checkKeys(cacheControl, ['type', 'ttl'], at(path, 'cache_control'), scope);
+  checkOneOf(cacheControl, 'type', at(path, 'cache_control'), ['ephemeral']);
+  if (cacheControl.ttl !== undefined) checkOneOf(cacheControl, 'ttl', at(path, 'cache_control'), ['5m', '1h']);
+}
+
+function checkTextBlock(block: JsonObject, path: string, scope: Scope): void {
+  checkString(block, 'text', path, true);
+  checkCacheControl(block, path, scope);
+}
+
+function checkImageSource(source: JsonObject, path: string, scope: Scope): void {
+  checkOneOf(source, 'type', path, ['base64', 'url', 'file']);
+  if (source.type === 'base64') {
+    checkKeys(source, ['type', 'media_type', 'data'], path, scope);
+    checkOneOf(source, 'media_type', path, IMAGE_MEDIA_TYPES);
+    checkString(source, 'data', path, true);
+  } else if (source.type === 'url') {
+    checkKeys(source, ['type', 'url'], path, scope);
+    checkString(source, 'url', path, true);
+  } else {
+    checkKeys(source, ['type', 'file_id'], path, scope);
+    checkString(source, 'file_id', path, true);
+  }
+}
+
+// Text and images, the blocks a tool result or custom document may contain
+function checkNestedBlocks(value: unknown, path: string, scope: Scope): void {
+  if (typeof value === 'string') return;
+  expectArray(value, path).forEach((item, i) => {
+    const block = expectObject(item, at(path, i));
+    if (scope.strict) checkOneOf(block, 'type', at(path, i), ['text', 'image']);
+    checkBlock(block, at(path, i), scope);
+  });
+}
+
+function checkDocumentSource(source: JsonObject, path: string, scope: Scope): void {
+  checkOneOf(source, 'type', path, ['base64', 'text', 'url', 'content', 'file']);
+  switch (source.type) {
+    case 'base64':
+      checkKeys(source, ['type', 'media_type', 'data'], path, scope);
+      checkOneOf(source, 'media_type', path, ['application/pdf', 'text/plain']);
+      checkString(source, 'data', path, true);
+      break;
+    case 'text':
+      checkKeys(source, ['type', 'media_type', 'data'], path, scope);
+      checkString(source, 'media_type', path);
+      checkString(source, 'data', path, true);
+      break;
+    case 'url':
+      checkKeys(source, ['type', 'url'], path, scope);
+      checkString(source, 'url', path, true);
+      break;
+    case 'content':
+      checkKeys(source, ['type', 'content'], path, scope);
+      checkNestedBlocks(requireField(source, 'content', path), at(path, 'content'), scope);
+      break;
+    case 'file':
+      checkKeys(source, ['type', 'file_id'], path, scope);
+      checkString(source, 'file_id', path, true);
+      break;
+  }
+}
+
+// One content block. Blocks of a type the router does not know are only
+// rejected in strict mode; lenient mode leaves them to the converters.
+function checkBlock(block: JsonObject, path: string, scope: Scope): void {
+  checkString(block, 'type', path, true);
+  const type = block.type as string;
+  const fields = BLOCK_FIELDS.get(type);
+  if (!fields) {
+    if (scope.strict) fail(at(path, 'type'), `must be one of: ${[...BLOCK_FIELDS.keys()].join(', ')}`);
+    return;
+  }
+  checkKeys(block, fields, path, scope);
+
+  switch (type) {
+    case 'text':
+      checkTextBlock(block, path, scope);
+      break;
+    case 'image':
+      checkImageSource(expectObject(requireField(block, 'source', path), at(path, 'source')), at(path, 'source'), scope);
+      checkCacheControl(block, path, scope);
+      break;
+    case 'document':
+      checkDocumentSource(expectObject(requireField(block, 'source', path), at(path, 'source')), at(path, 'source'), scope);
+      checkString(block, 'title', path);
+      checkString(block, 'context', path);
+      if (block.citations !== undefined) {
+        checkBoolean(expectObject(block.citations, at(path, 'citations')), 'enabled', at(path, 'citations'));
+      }
+      checkCacheControl(block, path, scope);
+      break;
+    case 'tool_use':
+      checkString(block, 'id', path, true);
+      checkString(block, 'name', path, true);
+      expectObject(requireField(block, 'input', path), at(path, 'input'));
+      checkCacheControl(block, path, scope);
+      break;
+    case 'tool_result':
+      checkString(block, 'tool_use_id', path, true);
+      if (block.content !== undefined) checkNestedBlocks(block.content, at(path, 'content'), scope);
+      checkBoolean(block, 'is_error', path);
+      checkCacheControl(block, path, scope);
+      break;
+    case 'thinking':
+      checkString(block, 'thinking', path, true);
+      checkString(block, 'signature', path, true);
+      break;
+    case 'redacted_thinking':
+      checkString(block, 'data', path, true);
+      break;
+  }
+}
+
+function getBlocks(content: unknown): JsonObject[] {
+  return Array.isArray(content) ? (content as JsonObject[]) : [];
+}
+
+// Anthropic's rules between turns: roles alternate starting with the user,
+// tool_use blocks are only sent by the assistant and answered by tool_result
+// blocks at the start of the next user turn
+function checkConversation(messages: JsonObject[], messagesPath: string): void {
+  messages.forEach((msg, i) => {
+    const path = at(messagesPath, i);
+    if (i === 0 && msg.role !== 'user') fail(at(path, 'role'), 'the first message must use the "user" role');
+    if (i > 0 && msg.role === messages[i - 1].role) {
+      fail(at(path, 'role'), 'roles must alternate between "user" and "assistant"');
+    }
+
+    const blocks = getBlocks(msg.content);
+    blocks.forEach((block, j) => {
+      if (block.type === 'tool_use' && msg.role !== 'assistant') {
+        fail(at(at(path, 'content'), j), 'tool_use blocks can only be sent in "assistant" messages');
+      }
+      if (block.type === 'tool_result' && msg.role !== 'user') {
+        fail(at(at(path, 'content'), j), 'tool_result blocks can only be sent in "user" messages');
+      }
+    });
+
+    if (msg.role !== 'user' || i === 0) return;
+    const toolUseIds = new Set(getBlocks(messages[i - 1].content)
+      .filter(block => block.type === 'tool_use')
+      .map(block => block.id));
+    const answered = new Set<unknown>();
+    let pastResults = false;
+
+    blocks.forEach((block, j) => {
+      const blockPath = at(at(path, 'content'), j);
+      if (block.type !== 'tool_result') {
+        pastResults = true;
+        return;
+      }
+      if (pastResults) fail(blockPath, 'tool_result blocks must come before any other content');
+      if (!toolUseIds.has(block.tool_use_id)) {
+        fail(at(blockPath, 'tool_use_id'), `no tool_use block with id "${block.tool_use_id}" in the previous message`);
+      }
+      answered.add(block.tool_use_id);
+    });
+
+    const unanswered = [...toolUseIds].find(id => !answered.has(id));
+    if (unanswered !== undefined) {
+      fail(at(path, 'content'), `tool_use block "${unanswered}" in the previous message has no tool_result`);
+    }
+  });
+}
+
+function checkMessages(value: unknown, path: string, scope: Scope): void {
+  const messages = expectArray(value, path);
+  if (messages.length === 0) fail(path, 'at least one message is required');
+
+  checkConversation(messages.map((item, i) => {
+    const msgPath = at(path, i);
+    const msg = expectObject(item, msgPath);
+    checkKeys(msg, ['role', 'content'], msgPath, scope);
+    checkOneOf(msg, 'role', msgPath, ['user', 'assistant']);
+
+    const content = requireField(msg, 'content', msgPath);
+    if (typeof content !== 'string') {
+      expectArray(content, at(msgPath, 'content')).forEach((block, j) => {
+        const blockPath = at(at(msgPath, 'content'), j);
+        checkBlock(expectObject(block, blockPath), blockPath, scope);
+      });
+    }
+    return msg;
+  }), path);
+}
+
+function checkSystem(obj: JsonObject, path: string, scope: Scope): void {
+  const system = obj.system;
+  if (system === undefined || typeof system === 'string') return;
+  expectArray(system, at(path, 'system')).forEach((item, i) => {
+    const blockPath = at(at(path, 'system'), i);
+    const block = expectObject(item, blockPath);
+    checkKeys(block, BLOCK_FIELDS.get('text')!, blockPath, scope);
+    checkOneOf(block, 'type', blockPath, ['text']);
+    checkTextBlock(block, blockPath, scope);
+  });
+}
+
+function checkTools(obj: JsonObject, path: string, scope: Scope): void {
+  if (obj.tools !== undefined) {
+    const names = new Set<unknown>();
+    expectArray(obj.tools, at(path, 'tools')).forEach((item, i) => {
+      const toolPath = at(at(path, 'tools'), i);
+      const tool = expectObject(item, toolPath);
+      checkString(tool, 'name', toolPath, true);
+      if (names.has(tool.name)) fail(at(toolPath, 'name'), `duplicate tool name "${tool.name}"`);
+      names.add(tool.name);
+
+      // Server tools (web_search_..., bash_...) carry a versioned type instead of a schema
+      if (tool.type !== undefined && tool.type !== 'custom') {
+        checkString(tool, 'type', toolPath);
+        return;
+      }
+      checkKeys(tool, ['type', 'name', 'description', 'input_schema', 'cache_control'], toolPath, scope);
+      checkString(tool, 'description', toolPath);
+      const schema = expectObject(requireField(tool, 'input_schema', toolPath), at(toolPath, 'input_schema'));
+      checkOneOf(schema, 'type', at(toolPath, 'input_schema'), ['object']);
+      checkCacheControl(tool, toolPath, scope);
+    });
+  }
+
+  if (obj.tool_choice !== undefined) {
+    const choicePath = at(path, 'tool_choice');
+    const choice = expectObject(obj.tool_choice, choicePath);
+    checkKeys(choice, ['type', 'name', 'disable_parallel_tool_use'], choicePath, scope);
+    checkOneOf(choice, 'type', choicePath, ['auto', 'any', 'tool']);
+    checkString(choice, 'name', choicePath, choice.type === 'tool');
+    checkBoolean(choice, 'disable_parallel_tool_use', choicePath);
+  }
+}
+
+function checkThinking(obj: JsonObject, path: string, scope: Scope): void {
+  if (obj.thinking === undefined) return;
+  const thinkingPath = at(path, 'thinking');
+  const thinking = expectObject(obj.thinking, thinkingPath);
+  checkKeys(thinking, ['type', 'budget_tokens'], thinkingPath, scope);
+  checkOneOf(thinking, 'type', thinkingPath, ['enabled', 'disabled']);
+  if (thinking.type !== 'enabled') return;
+
+  checkInteger(thinking, 'budget_tokens', thinkingPath, MIN_THINKING_BUDGET, true);
+  if (typeof obj.max_tokens === 'number' && (thinking.budget_tokens as number) >= obj.max_tokens) {
+    fail(at(thinkingPath, 'budget_tokens'), 'must be less than max_tokens');
+  }
+}
+
+// Fields shared by Messages and count_tokens requests
+function checkPrompt(obj: JsonObject, path: string, scope: Scope): void {
+  checkString(obj, 'model', path, true);
+  checkMessages(requireField(obj, 'messages', path), at(path, 'messages'), scope);
+  checkSystem(obj, path, scope);
+  checkTools(obj, path, scope);
+  checkThinking(obj, path, scope);
+}
+
+// Check a Messages API request against Anthropic's rules: types, value
+// ranges, turn order and tool_use/tool_result pairing
+function checkMessagesRequest(body: unknown, scope: Scope, path: string): asserts body is ClaudeRequest {
+  const request = expectObject(body, path || 'body');
+  checkKeys(request, REQUEST_FIELDS, path, scope);
+
+  checkInteger(request, 'max_tokens', path, 1, true);
+  checkPrompt(request, path, scope);
+  checkNumber(request, 'temperature', path, [0, 1]);
+  checkNumber(request, 'top_p', path, [0, 1]);
+  checkInteger(request, 'top_k', path, 0);
+  checkBoolean(request, 'stream', path);
+
+  if (request.stop_sequences !== undefined) {
+    expectArray(request.stop_sequences, at(path, 'stop_sequences')).forEach((item, i) => {
+      if (typeof item !== 'string') fail(at(at(path, 'stop_sequences'), i), 'must be a string');
+    });
+  }
+  if (request.metadata !== undefined) {
+    const metadata = expectObject(request.metadata, at(path, 'metadata'));
+    checkKeys(metadata, ['user_id'], at(path, 'metadata'), scope);
+    checkString(metadata, 'user_id', at(path, 'metadata'));
+  }
+}
+
+function checkTokenCountRequest(body: unknown, scope: Scope): asserts body is TokenCountRequest {
+  const request = expectObject(body, 'body');
+  checkKeys(request, TOKEN_COUNT_FIELDS, '', scope);
+  checkPrompt(request, '', scope);
+}
+
+// Check a Messages API request (or a batch request's params, under `path`)
+// and return it typed. Strict mode also rejects fields and block types it
+// does not know; lenient mode passes them through.
+export function validateMessagesRequest(body: unknown, mode: ValidationMode = 'lenient', path = ''): ClaudeRequest {
+  checkMessagesRequest(body, { strict: mode === 'strict' }, path);
+  return body;
+}
+
+export function validateTokenCountRequest(body: unknown, mode: ValidationMode = 'lenient'): TokenCountRequest {
+  checkTokenCountRequest(body, { strict: mode === 'strict' });
+  return body;
+}
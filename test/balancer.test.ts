@@ -0,0 +1,174 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { setTimeout as delay } from 'timers/promises';
+import { listen, startRouter, TestServer } from './helpers';
+import { LoadBalancingConfig } from '../src/types';
+
+interface StubInstance extends TestServer {
+  received: number;
+  served: number;
+  // Answer with a 503 instead of a completion
+  failing: boolean;
+  // Hold completions until release() is called
+  hold: boolean;
+  release(): void;
+}
+
+// One instance of an OpenAI-compatible backend that counts what it served
+async function startInstance(): Promise<StubInstance> {
+  const held: (() => void)[] = [];
+  const instance = {
+    received: 0,
+    served: 0,
+    failing: false,
+    hold: false,
+    release: () => held.splice(0).forEach(respond => respond()),
+  } as StubInstance;
+
+  const server = await listen(http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      instance.received++;
+      res.setHeader('content-type', 'application/json');
+      if (instance.failing) {
+        res.statusCode = 503;
+        res.end(JSON.stringify({ error: { message: 'busy' } }));
+        return;
+      }
+      const respond = () => {
+        instance.served++;
+        res.end(JSON.stringify({
+          id: 'chatcmpl-stub',
+          object: 'chat.completion',
+          created: 0,
+          model: 'default-model',
+          choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+        }));
+      };
+      if (instance.hold) {
+        held.push(respond);
+      } else {
+        respond();
+      }
+    });
+  }));
+  return Object.assign(instance, server);
+}
+
+function startBalancedRouter(instances: StubInstance[], loadBalancing: LoadBalancingConfig): Promise<TestServer> {
+  return startRouter(instances[0].url, {
+    openaiCompatible: [{
+      name: 'stub',
+      baseUrl: `${instances[0].url}/v1`,
+      endpoints: instances.map(instance => `${instance.url}/v1`),
+      loadBalancing,
+      model: 'default-model',
+    }],
+  });
+}
+
+function send(router: TestServer, content = 'hi', userId?: string): Promise<globalThis.Response> {
+  return fetch(`${router.url}/v1/messages`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({
+      model: 'claude-sonnet-4',
+      max_tokens: 16,
+      messages: [{ role: 'user', content }],
+      ...(userId && { metadata: { user_id: userId } }),
+    }),
+  });
+}
+
+async function withInstances(count: number, fn: (instances: StubInstance[]) => Promise<void>): Promise<void> {
+  const instances = await Promise.all(Array.from({ length: count }, startInstance));
+  try {
+    await fn(instances);
+  } finally {
+    await Promise.all(instances.map(instance => instance.close()));
+  }
+}
+
+test('round-robin spreads requests evenly over the instances', { timeout: 15000 }, () =>
+  withInstances(2, async instances => {
+    const router = await startBalancedRouter(instances, { strategy: 'round-robin' });
+    try {
+      for (let i = 0; i < 4; i++) {
+        assert.equal((await send(router)).status, 200);
+      }
+      assert.deepEqual(instances.map(instance => instance.served), [2, 2]);
+    } finally {
+      await router.close();
+    }
+  })
+);
+
+test('least-outstanding sends requests past an instance that is still busy', { timeout: 15000 }, () =>
+  withInstances(2, async ([busy, idle]) => {
+    const router = await startBalancedRouter([busy, idle], { strategy: 'least-outstanding' });
+    try {
+      busy.hold = true;
+      const pending = send(router);
+      while (busy.received === 0) {
+        await delay(10);
+      }
+
+      for (let i = 0; i < 3; i++) {
+        assert.equal((await send(router)).status, 200);
+      }
+      assert.equal(idle.served, 3);
+
+      busy.release();
+      assert.equal((await pending).status, 200);
+      assert.equal(busy.served, 1);
+    } finally {
+      await router.close();
+    }
+  })
+);
+
+test('sticky keeps a conversation on one instance', { timeout: 15000 }, () =>
+  withInstances(3, async instances => {
+    const router = await startBalancedRouter(instances, { strategy: 'sticky' });
+    try {
+      for (const [content, userId] of [['first conversation', undefined], ['second conversation', 'user-42']]) {
+        const before = instances.map(instance => instance.served);
+        for (let i = 0; i < 3; i++) {
+          assert.equal((await send(router, content, userId)).status, 200);
+        }
+        const served = instances.map((instance, i) => instance.served - before[i]);
+        assert.deepEqual(served.filter(n => n > 0), [3]);
+      }
+    } finally {
+      await router.close();
+    }
+  })
+);
+
+test('a failing instance is ejected and taken back once its ejection time is up', { timeout: 15000 }, () =>
+  withInstances(2, async ([flaky, healthy]) => {
+    const router = await startBalancedRouter([flaky, healthy], { strategy: 'round-robin', maxFailures: 1, ejectionTime: 300 });
+    try {
+      flaky.failing = true;
+      assert.equal((await send(router)).status, 529);
+
+      // Ejected: every request goes to the healthy instance
+      for (let i = 0; i < 3; i++) {
+        assert.equal((await send(router)).status, 200);
+      }
+      assert.equal(healthy.served, 3);
+
+      flaky.failing = false;
+      await delay(350);
+      for (let i = 0; i < 2; i++) {
+        assert.equal((await send(router)).status, 200);
+      }
+      assert.equal(flaky.served, 1);
+      assert.equal(healthy.served, 4);
+    } finally {
+      await router.close();
+    }
+  })
+);
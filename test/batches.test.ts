@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { setTimeout as delay } from 'timers/promises';
+import { listen, startRouter } from './helpers';
+
+function createStubBackend(): http.Server {
+  return http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({
+        id: 'chatcmpl-stub',
+        object: 'chat.completion',
+        created: 0,
+        model: 'default-model',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'done' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+      }));
+    });
+  });
+}
+
+test('a batch interrupted mid-write resumes, skipping unreadable files and the cut-off result line', { timeout: 15000 }, async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sona-router-batches-'));
+  const id = 'msgbatch_1_resume';
+  const params = { model: 'claude-sonnet-4', max_tokens: 16, messages: [{ role: 'user', content: 'hi' }] };
+  const now = Date.now();
+
+  fs.writeFileSync(path.join(dir, `${id}.json`), JSON.stringify({
+    id,
+    type: 'message_batch',
+    processing_status: 'in_progress',
+    request_counts: { processing: 1, succeeded: 0, errored: 0, canceled: 1, expired: 0 },
+    ended_at: null,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + 60 * 60 * 1000).toISOString(),
+    cancel_initiated_at: null,
+    archived_at: null,
+  }));
+  fs.writeFileSync(path.join(dir, `${id}.requests.jsonl`),
+    ['first', 'second'].map(custom_id => JSON.stringify({ custom_id, params }) + '\n').join(''));
+  fs.writeFileSync(path.join(dir, `${id}.results.jsonl`),
+    JSON.stringify({ custom_id: 'first', result: { type: 'canceled' } }) + '\n' + '{"custom_id":"second","res');
+  fs.writeFileSync(path.join(dir, 'msgbatch_2_torn.json'), '{"id": "msgbatch_2_to');
+
+  const backend = await listen(createStubBackend());
+  const router = await startRouter(backend.url, { batches: { dir } });
+
+  try {
+    let batch: { processing_status: string; request_counts: Record<string, number> };
+    do {
+      await delay(50);
+      batch = await (await fetch(`${router.url}/v1/messages/batches/${id}`)).json() as typeof batch;
+    } while (batch.processing_status !== 'ended');
+
+    assert.deepEqual(batch.request_counts, { processing: 0, succeeded: 1, errored: 0, canceled: 1, expired: 0 });
+
+    const results = (await (await fetch(`${router.url}/v1/messages/batches/${id}/results`)).text())
+      .trim().split('\n').map(line => JSON.parse(line) as { custom_id: string; result: { type: string } });
+    assert.deepEqual(results.map(r => [r.custom_id, r.result.type]), [['first', 'canceled'], ['second', 'succeeded']]);
+
+    const torn = await fetch(`${router.url}/v1/messages/batches/msgbatch_2_torn`);
+    assert.equal(torn.status, 404);
+    assert.ok(!fs.readdirSync(dir).some(file => file.endsWith('.tmp')));
+  } finally {
+    await router.close();
+    await backend.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
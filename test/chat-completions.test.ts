@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { listen, startRouter } from './helpers';
+
+function postChatCompletion(url: string, body: Record<string, unknown>): Promise<globalThis.Response> {
+  return fetch(`${url}/v1/chat/completions`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: 'Bearer sk-local' },
+    body: JSON.stringify({ model: 'claude-sonnet-4', messages: [{ role: 'user', content: 'hi' }], ...body }),
+  });
+}
+
+test('an unreachable backend is reported to OpenAI clients as a 503', async () => {
+  // A port nothing listens on any more, so the connection is refused
+  const closed = await listen(http.createServer());
+  await closed.close();
+  const router = await startRouter(closed.url);
+
+  try {
+    const response = await postChatCompletion(router.url, {});
+    assert.equal(response.status, 503);
+    const body = await response.json() as { error: { type: string } };
+    assert.equal(body.error.type, 'overloaded_error');
+  } finally {
+    await router.close();
+  }
+});
+
+test('a streamed reply is rewritten into chat.completion.chunk events', { timeout: 15000 }, async () => {
+  const backend = await listen(http.createServer((req, res) => {
+    req.resume();
+    res.setHeader('content-type', 'text/event-stream');
+    for (const [delta, finish] of [[{ content: 'Hello' }, null], [{ content: ' there' }, null], [{}, 'stop']] as const) {
+      const chunk = { id: 'c', object: 'chat.completion.chunk', created: 0, model: 'm', choices: [{ index: 0, delta, finish_reason: finish }] };
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    }
+    res.end('data: [DONE]\n\n');
+  }));
+  const router = await startRouter(backend.url);
+
+  try {
+    const response = await postChatCompletion(router.url, { stream: true });
+    assert.equal(response.headers.get('content-type'), 'text/event-stream');
+
+    const events = (await response.text()).split('\n\n').filter(Boolean).map(event => event.replace(/^data: /, ''));
+    assert.equal(events.pop(), '[DONE]');
+    const chunks = events.map(event => JSON.parse(event) as { object: string; choices: { delta: { content?: string }; finish_reason: string | null }[] });
+    assert.ok(chunks.every(chunk => chunk.object === 'chat.completion.chunk'));
+    assert.equal(chunks.map(chunk => chunk.choices[0].delta.content || '').join(''), 'Hello there');
+    assert.equal(chunks[chunks.length - 1].choices[0].finish_reason, 'stop');
+  } finally {
+    await router.close();
+    await backend.close();
+  }
+});
+
+test('malformed chat messages are rejected with the path of the offending field', async () => {
+  const router = await startRouter('http://127.0.0.1:1');
+
+  try {
+    const cases: [unknown[], string][] = [
+      [[{ role: 'robot', content: 'hi' }], 'messages.0.role: must be one of "system", "developer", "user", "assistant", "tool"'],
+      [[{ role: 'user', content: { text: 'hi' } }], 'messages.0.content: must be a string or an array of content parts'],
+      [[{ role: 'user', content: 'hi' }, { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function' }] }],
+        'messages.1.tool_calls.0.function: must be an object'],
+      [[{ role: 'system', content: 'be brief' }], 'messages: must contain at least one user, assistant or tool message with content'],
+    ];
+    for (const [messages, message] of cases) {
+      const response = await postChatCompletion(router.url, { messages });
+      assert.equal(response.status, 400);
+      const body = await response.json() as { error: { type: string; message: string } };
+      assert.equal(body.error.type, 'invalid_request_error');
+      assert.equal(body.error.message, message);
+    }
+  } finally {
+    await router.close();
+  }
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { listen, startRouter } from './helpers';
+
+test('malformed legacy completion requests get a 400 invalid_request_error', async () => {
+  // Validation fails before any backend is contacted
+  const router = await startRouter('http://127.0.0.1:9');
+  const valid = { model: 'claude-2.1', prompt: '\n\nHuman: hi\n\nAssistant:', max_tokens_to_sample: 16 };
+
+  try {
+    for (const [body, message] of [
+      [{ ...valid, model: undefined }, 'model: field required'],
+      [{ ...valid, model: 42 }, 'model: must be a string'],
+      [{ ...valid, prompt: undefined }, 'prompt: field required'],
+      [{ ...valid, max_tokens_to_sample: '16' }, 'max_tokens_to_sample: must be a number'],
+      [{ ...valid, max_tokens_to_sample: 0 }, 'max_tokens_to_sample: must be an integer of at least 1'],
+    ] as const) {
+      const response = await fetch(`${router.url}/v1/complete`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      assert.equal(response.status, 400);
+      assert.deepEqual(await response.json(), { type: 'error', error: { type: 'invalid_request_error', message } });
+    }
+  } finally {
+    await router.close();
+  }
+});
+
+test('a streamed reply is rewritten into legacy completion events', { timeout: 15000 }, async () => {
+  const backend = await listen(http.createServer((req, res) => {
+    req.resume();
+    res.setHeader('content-type', 'text/event-stream');
+    for (const [delta, finish] of [[{ content: 'Hi' }, null], [{}, 'length']] as const) {
+      const chunk = { id: 'c', object: 'chat.completion.chunk', created: 0, model: 'm', choices: [{ index: 0, delta, finish_reason: finish }] };
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    }
+    res.end('data: [DONE]\n\n');
+  }));
+  const router = await startRouter(backend.url);
+
+  try {
+    const response = await fetch(`${router.url}/v1/complete`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ model: 'claude-2.1', prompt: '\n\nHuman: hi\n\nAssistant:', max_tokens_to_sample: 16, stream: true }),
+    });
+    assert.equal(response.headers.get('content-type'), 'text/event-stream');
+
+    const completions = (await response.text()).split('\n\n').filter(Boolean).map(event => {
+      const [, name, data] = event.match(/^event: (.+)\ndata: (.+)$/)!;
+      assert.equal(name, 'completion');
+      return JSON.parse(data) as { completion: string; stop_reason: string | null };
+    });
+    assert.deepEqual(completions.map(c => [c.completion, c.stop_reason]), [['Hi', null], ['', 'max_tokens']]);
+  } finally {
+    await router.close();
+    await backend.close();
+  }
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { listen, startRouter } from './helpers';
+
+const REQUESTS = 6;
+
+const ROUTES: Record<string, string> = {
+  'claude-sonnet-4': 'stub/qwen2.5-coder-32b',
+  'claude-3-5-haiku': 'stub/qwen2.5-coder-7b',
+};
+
+// An OpenAI-compatible backend that holds every request until all of them
+// have arrived, so they are guaranteed to be in flight at the same time, and
+// answers each with the model it was asked for
+function createStubBackend(expected: number): { server: http.Server; peak: () => number } {
+  let inFlight = 0;
+  let peak = 0;
+  const waiting: (() => void)[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const { model } = JSON.parse(body) as { model: string };
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+
+      waiting.push(() => {
+        inFlight--;
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({
+          id: 'chatcmpl-stub',
+          object: 'chat.completion',
+          created: 0,
+          model,
+          choices: [{ index: 0, message: { role: 'assistant', content: `served by ${model}` }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 1, completion_tokens: 3, total_tokens: 4 },
+        }));
+      });
+      if (waiting.length === expected) {
+        waiting.splice(0).forEach(release => release());
+      }
+    });
+  });
+  return { server, peak: () => peak };
+}
+
+test('overlapping requests are each served by their own routed model', { timeout: 15000 }, async () => {
+  const stub = createStubBackend(REQUESTS);
+  const backend = await listen(stub.server);
+  const router = await startRouter(backend.url, { routes: ROUTES });
+
+  try {
+    const models = Array.from({ length: REQUESTS }, (_, i) => (i % 2 === 0 ? 'claude-sonnet-4' : 'claude-3-5-haiku'));
+    const responses = await Promise.all(models.map(async model => {
+      const response = await fetch(`${router.url}/v1/messages`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ model, max_tokens: 16, messages: [{ role: 'user', content: `hello from ${model}` }] }),
+        signal: AbortSignal.timeout(10000),
+      });
+      const body = await response.json() as { model: string; content: { type: string; text: string }[] };
+      return { model, servedBy: response.headers.get('x-sona-served-by'), body };
+    }));
+
+    assert.equal(stub.peak(), REQUESTS, 'all requests should be in flight at once');
+    for (const { model, servedBy, body } of responses) {
+      const target = ROUTES[model];
+      assert.equal(servedBy, target);
+      assert.equal(body.model, model);
+      assert.equal(body.content[0].text, `served by ${target.slice('stub/'.length)}`);
+    }
+  } finally {
+    await router.close();
+    await backend.close();
+  }
+});
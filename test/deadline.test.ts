@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { listen, startRouter } from './helpers';
+
+test('a backend that keeps streaming is cut off at the request deadline', { timeout: 15000 }, async () => {
+  let onUpstreamClose: () => void;
+  const upstreamClosed = new Promise<void>(resolve => (onUpstreamClose = resolve));
+  const backend = await listen(http.createServer((req, res) => {
+    req.resume();
+    res.setHeader('content-type', 'text/event-stream');
+    const chunk = { id: 'c', object: 'chat.completion.chunk', created: 0, model: 'm', choices: [{ index: 0, delta: { content: 'token ' }, finish_reason: null }] };
+    const timer = setInterval(() => res.write(`data: ${JSON.stringify(chunk)}\n\n`), 50);
+    res.on('close', () => {
+      clearInterval(timer);
+      onUpstreamClose();
+    });
+  }));
+  const router = await startRouter(backend.url, { requestTimeout: 500 });
+
+  try {
+    const startedAt = Date.now();
+    const response = await fetch(`${router.url}/v1/messages`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ model: 'claude-sonnet-4', max_tokens: 16, stream: true, messages: [{ role: 'user', content: 'hi' }] }),
+      signal: AbortSignal.timeout(5000),
+    });
+    const body = await response.text();
+
+    assert.ok(Date.now() - startedAt < 2000, 'the stream should end soon after the deadline');
+    assert.match(body, /event: content_block_delta/);
+    assert.match(body, /event: error/);
+    // Resolves only once the router has torn down the upstream connection
+    await upstreamClosed;
+  } finally {
+    await router.close();
+    await backend.close();
+  }
+});
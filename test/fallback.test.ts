@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { setTimeout as delay } from 'timers/promises';
+import { listen, startRouter } from './helpers';
+
+test('a client that disconnects during retry backoff stops further attempts', { timeout: 15000 }, async () => {
+  let attempts = 0;
+  let onFirstAttempt: () => void;
+  const firstAttempt = new Promise<void>(resolve => (onFirstAttempt = resolve));
+  const backend = await listen(http.createServer((req, res) => {
+    req.resume();
+    attempts++;
+    onFirstAttempt();
+    res.writeHead(503, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'busy' } }));
+  }));
+  const router = await startRouter(backend.url, { fallback: { retries: 3, backoff: 300 } });
+
+  try {
+    const client = new AbortController();
+    const response = fetch(`${router.url}/v1/messages`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ model: 'claude-sonnet-4', max_tokens: 16, messages: [{ role: 'user', content: 'hi' }] }),
+      signal: client.signal,
+    });
+    await firstAttempt;
+    client.abort();
+    await assert.rejects(response);
+
+    // Long enough for the first two retries (300ms, then 600ms) to have run
+    await delay(1200);
+    assert.equal(attempts, 1);
+  } finally {
+    await router.close();
+    await backend.close();
+  }
+});
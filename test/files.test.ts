@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { listen, startRouter, TestServer } from './helpers';
+
+// A 1x1 transparent PNG
+const PNG = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=', 'base64');
+
+interface FileMetadata {
+  id: string;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+}
+
+function upload(router: TestServer, data: Buffer | string, filename: string, type?: string): Promise<globalThis.Response> {
+  const form = new FormData();
+  form.append('file', new Blob([data], type ? { type } : {}), filename);
+  return fetch(`${router.url}/v1/files`, { method: 'POST', body: form });
+}
+
+test('files can be uploaded, listed, downloaded and deleted', async () => {
+  const router = await startRouter('http://127.0.0.1:1');
+  try {
+    const uploaded = await upload(router, 'name,total\nwidgets,42\n', 'sales.csv', 'application/octet-stream');
+    assert.equal(uploaded.status, 200);
+    const file = await uploaded.json() as FileMetadata;
+    assert.equal(file.filename, 'sales.csv');
+    assert.equal(file.mime_type, 'text/csv');
+    assert.equal(file.size_bytes, 22);
+
+    const list = await (await fetch(`${router.url}/v1/files`)).json() as { data: FileMetadata[]; first_id: string };
+    assert.deepEqual(list.data.map(f => f.id), [file.id]);
+    assert.equal(list.first_id, file.id);
+
+    assert.deepEqual(await (await fetch(`${router.url}/v1/files/${file.id}`)).json(), file);
+
+    const content = await fetch(`${router.url}/v1/files/${file.id}/content`);
+    assert.equal(content.headers.get('content-type'), 'text/csv; charset=utf-8');
+    assert.equal(await content.text(), 'name,total\nwidgets,42\n');
+
+    const deleted = await fetch(`${router.url}/v1/files/${file.id}`, { method: 'DELETE' });
+    assert.deepEqual(await deleted.json(), { id: file.id, type: 'file_deleted' });
+    assert.equal((await fetch(`${router.url}/v1/files/${file.id}`)).status, 404);
+  } finally {
+    await router.close();
+  }
+});
+
+test('file sources are replaced by the stored document or image', { timeout: 15000 }, async () => {
+  let received: { messages: { role: string; content: unknown }[] } | undefined;
+  const backend = await listen(http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received = JSON.parse(body);
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({
+        id: 'chatcmpl-stub',
+        object: 'chat.completion',
+        created: 0,
+        model: 'default-model',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+      }));
+    });
+  }));
+  const router = await startRouter(backend.url);
+
+  try {
+    const notes = await (await upload(router, 'Quarterly revenue grew 12%.', 'notes.txt', 'text/plain')).json() as FileMetadata;
+    const image = await (await upload(router, PNG, 'pixel.png')).json() as FileMetadata;
+    assert.equal(image.mime_type, 'image/png');
+
+    const response = await fetch(`${router.url}/v1/messages`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        model: 'claude-sonnet-4',
+        max_tokens: 16,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'document', source: { type: 'file', file_id: notes.id } },
+            { type: 'image', source: { type: 'file', file_id: image.id } },
+            { type: 'text', text: 'Summarize both.' },
+          ],
+        }],
+      }),
+    });
+    assert.equal(response.status, 200);
+
+    const sent = JSON.stringify(received!.messages);
+    assert.ok(sent.includes('Quarterly revenue grew 12%.'));
+    assert.ok(sent.includes('notes.txt'));
+    assert.ok(sent.includes(`data:image/png;base64,${PNG.toString('base64')}`));
+
+    // A text file is not an image
+    const wrongType = await fetch(`${router.url}/v1/messages`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        model: 'claude-sonnet-4',
+        max_tokens: 16,
+        messages: [{ role: 'user', content: [{ type: 'image', source: { type: 'file', file_id: notes.id } }] }],
+      }),
+    });
+    assert.equal(wrongType.status, 400);
+  } finally {
+    await router.close();
+    await backend.close();
+  }
+});
+
+test('an upload over files.maxFileSize is rejected', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sona-router-files-'));
+  const router = await startRouter('http://127.0.0.1:1', { files: { dir, maxFileSize: 1024 } });
+  try {
+    const response = await upload(router, Buffer.alloc(4096, 'a'), 'big.txt', 'text/plain');
+    assert.equal(response.status, 413);
+    const body = await response.json() as { error: { type: string } };
+    assert.equal(body.error.type, 'request_too_large');
+
+    const list = await (await fetch(`${router.url}/v1/files`)).json() as { data: FileMetadata[] };
+    assert.deepEqual(list.data, []);
+  } finally {
+    await router.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
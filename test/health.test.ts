@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { listen, startRouter, TestServer } from './helpers';
+
+const HEALTH_CHECK = { interval: 60 * 1000, timeout: 1000 };
+
+// An OpenAI-compatible backend that lists one model and answers every completion
+function startBackend(): Promise<TestServer> {
+  return listen(http.createServer((req, res) => {
+    req.resume();
+    res.setHeader('content-type', 'application/json');
+    if (req.method === 'GET' && req.url === '/v1/models') {
+      res.end(JSON.stringify({ object: 'list', data: [{ id: 'default-model', object: 'model' }] }));
+      return;
+    }
+    res.end(JSON.stringify({
+      id: 'chatcmpl-stub',
+      object: 'chat.completion',
+      created: 0,
+      model: 'default-model',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    }));
+  }));
+}
+
+// A URL nothing listens on any more, so connections are refused
+async function closedUrl(): Promise<string> {
+  const closed = await listen(http.createServer());
+  await closed.close();
+  return closed.url;
+}
+
+async function getHealth(router: TestServer): Promise<{ status: number; body: { status: string } }> {
+  const response = await fetch(`${router.url}/health`);
+  return { status: response.status, body: await response.json() as { status: string } };
+}
+
+test('/health is 503 when no routed backend is reachable', async () => {
+  const router = await startRouter(await closedUrl(), { healthCheck: HEALTH_CHECK });
+  try {
+    assert.deepEqual(await getHealth(router), { status: 503, body: { status: 'unavailable', provider: 'stub' } });
+  } finally {
+    await router.close();
+  }
+});
+
+test('/health is degraded while only some routed backends are reachable', async () => {
+  const backend = await startBackend();
+  const down = await closedUrl();
+  const backends = (secondUrl: string) => ({
+    healthCheck: HEALTH_CHECK,
+    routes: { 'claude-3-5-haiku': 'second/default-model' },
+    openaiCompatible: [
+      { name: 'stub', baseUrl: `${backend.url}/v1`, model: 'default-model' },
+      { name: 'second', baseUrl: `${secondUrl}/v1`, model: 'default-model' },
+    ],
+  });
+
+  const degraded = await startRouter(backend.url, backends(down));
+  const ok = await startRouter(backend.url, backends(backend.url));
+  try {
+    assert.deepEqual(await getHealth(degraded), { status: 200, body: { status: 'degraded', provider: 'stub' } });
+    assert.deepEqual(await getHealth(ok), { status: 200, body: { status: 'ok', provider: 'stub' } });
+  } finally {
+    await degraded.close();
+    await ok.close();
+    await backend.close();
+  }
+});
+
+test('the load balancer skips an instance that failed its health check', { timeout: 15000 }, async () => {
+  const backend = await startBackend();
+  const down = await closedUrl();
+  const router = await startRouter(backend.url, {
+    healthCheck: HEALTH_CHECK,
+    openaiCompatible: [{
+      name: 'stub',
+      baseUrl: `${down}/v1`,
+      endpoints: [`${down}/v1`, `${backend.url}/v1`],
+      loadBalancing: { strategy: 'round-robin', maxFailures: 100 },
+      model: 'default-model',
+    }],
+  });
+
+  try {
+    // Waits for the first round of probes
+    assert.equal((await getHealth(router)).body.status, 'ok');
+
+    for (let i = 0; i < 4; i++) {
+      const response = await fetch(`${router.url}/v1/messages`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ model: 'claude-sonnet-4', max_tokens: 16, messages: [{ role: 'user', content: 'hi' }] }),
+      });
+      assert.equal(response.status, 200);
+    }
+
+    const status = await (await fetch(`${router.url}/status`)).json() as {
+      backends: { name: string; endpoints: { url: string; reachable?: boolean }[] }[];
+    };
+    const endpoints = status.backends.find(b => b.name === 'stub')!.endpoints;
+    assert.deepEqual(endpoints.map(e => e.reachable), [false, true]);
+  } finally {
+    await router.close();
+    await backend.close();
+  }
+});
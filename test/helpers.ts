@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { createServer } from '../src/server';
+import { DEFAULT_CONFIG } from '../src/config';
+import { Config } from '../src/types';
+
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+export function listen(server: http.Server): Promise<TestServer> {
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise(done => {
+          server.closeAllConnections();
+          server.close(() => done());
+        }),
+      });
+    });
+  });
+}
+
+// A router whose only backend is the openai-compatible server "stub", with
+// batch and file state kept in a temporary directory and health checks off
+export async function startRouter(backendUrl: string, overrides: Partial<Config> = {}): Promise<TestServer> {
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sona-router-test-'));
+  const config: Config = {
+    ...DEFAULT_CONFIG,
+    provider: 'stub',
+    openaiCompatible: [{ name: 'stub', baseUrl: `${backendUrl}/v1`, model: 'default-model' }],
+    healthCheck: { interval: 0 },
+    batches: { dir: path.join(stateDir, 'batches') },
+    files: { dir: path.join(stateDir, 'files') },
+    ...overrides,
+  };
+
+  const router = await listen(http.createServer(createServer(config)));
+  return {
+    url: router.url,
+    close: async () => {
+      await router.close();
+      fs.rmSync(stateDir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { listen, startRouter, TestServer } from './helpers';
+
+const ROUTES = {
+  'claude-opus-4': 'stub/big-model',
+  'claude-sonnet-4': 'stub/default-model',
+  'claude-3-5-haiku': 'stub/small-model',
+};
+
+// An OpenAI-compatible backend that reports two installed models and
+// answers every completion
+function startBackend(): Promise<TestServer> {
+  return listen(http.createServer((req, res) => {
+    req.resume();
+    res.setHeader('content-type', 'application/json');
+    if (req.method === 'GET' && req.url === '/v1/models') {
+      res.end(JSON.stringify({ object: 'list', data: [{ id: 'big-model' }, { id: 'small-model' }] }));
+      return;
+    }
+    res.end(JSON.stringify({
+      id: 'chatcmpl-stub',
+      object: 'chat.completion',
+      created: 0,
+      model: 'default-model',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    }));
+  }));
+}
+
+interface ModelList {
+  data: { id: string; created_at: string }[];
+  has_more: boolean;
+  first_id: string | null;
+  last_id: string | null;
+}
+
+async function getJson<T>(url: string, headers: Record<string, string> = { 'anthropic-version': '2023-06-01' }): Promise<{ status: number; body: T }> {
+  const response = await fetch(url, { headers });
+  return { status: response.status, body: await response.json() as T };
+}
+
+async function withRouter(overrides: Parameters<typeof startRouter>[1], fn: (router: TestServer) => Promise<void>): Promise<void> {
+  const backend = await startBackend();
+  const router = await startRouter(backend.url, overrides);
+  try {
+    await fn(router);
+  } finally {
+    await router.close();
+    await backend.close();
+  }
+}
+
+test('/v1/models pages with limit, after_id and before_id', () =>
+  withRouter({ routes: ROUTES }, async router => {
+    const first = (await getJson<ModelList>(`${router.url}/v1/models?limit=2`)).body;
+    assert.deepEqual(first.data.map(m => m.id), ['claude-opus-4', 'claude-sonnet-4']);
+    assert.equal(first.has_more, true);
+    assert.equal(first.first_id, 'claude-opus-4');
+    assert.equal(first.last_id, 'claude-sonnet-4');
+
+    const next = (await getJson<ModelList>(`${router.url}/v1/models?limit=2&after_id=${first.last_id}`)).body;
+    assert.deepEqual(next.data.map(m => m.id), ['claude-3-5-haiku']);
+    assert.equal(next.has_more, false);
+
+    const previous = (await getJson<ModelList>(`${router.url}/v1/models?limit=1&before_id=claude-3-5-haiku`)).body;
+    assert.deepEqual(previous.data.map(m => m.id), ['claude-sonnet-4']);
+    assert.equal(previous.has_more, true);
+
+    assert.equal((await getJson(`${router.url}/v1/models?after_id=claude-unknown`)).status, 404);
+  })
+);
+
+test('a dated model id is found through its undated route', () =>
+  withRouter({ routes: ROUTES }, async router => {
+    const { status, body } = await getJson<{ id: string; display_name: string; created_at: string }>(
+      `${router.url}/v1/models/claude-sonnet-4-20250514`
+    );
+    assert.equal(status, 200);
+    assert.equal(body.id, 'claude-sonnet-4-20250514');
+    assert.equal(body.display_name, 'Claude Sonnet 4 (stub/default-model)');
+    assert.equal(body.created_at, '2025-05-14T00:00:00.000Z');
+  })
+);
+
+test('model ids named after Object.prototype members are not routes', () =>
+  withRouter({ routes: ROUTES }, async router => {
+    assert.equal((await getJson(`${router.url}/v1/models/constructor`)).status, 404);
+
+    const response = await fetch(`${router.url}/v1/messages`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ model: 'constructor', max_tokens: 16, messages: [{ role: 'user', content: 'hi' }] }),
+    });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('x-sona-served-by'), 'stub/default-model');
+  })
+);
+
+test('listBackendModels adds every model the backends report as provider/model ids', () =>
+  withRouter({ routes: { 'claude-sonnet-4': 'stub/default-model' }, listBackendModels: true }, async router => {
+    const { body } = await getJson<ModelList>(`${router.url}/v1/models`);
+    assert.deepEqual(body.data.map(m => m.id), ['claude-sonnet-4', 'stub/big-model', 'stub/small-model']);
+  })
+);
+
+test('OpenAI clients get the model list in OpenAI format', () =>
+  withRouter({ routes: ROUTES }, async router => {
+    const { body } = await getJson<{ object: string; data: { id: string; object: string; created: number; owned_by: string }[] }>(
+      `${router.url}/v1/models`,
+      { authorization: 'Bearer sk-local' }
+    );
+    assert.equal(body.object, 'list');
+    assert.deepEqual(body.data.map(m => m.id), Object.keys(ROUTES));
+    assert.ok(body.data.every(m => m.object === 'model' && typeof m.created === 'number' && m.owned_by === 'sona-router'));
+  })
+);
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { listen, startRouter } from './helpers';
+import { DEFAULT_CONFIG } from '../src/config';
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise(resolve => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => resolve(data ? JSON.parse(data) : undefined));
+  });
+}
+
+test('a model Ollama has not pulled is pulled with the request credentials and the request sent again', { timeout: 15000 }, async () => {
+  const calls: { path: string; auth?: string }[] = [];
+  const installed = new Set(['qwen2.5:7b']);
+  const backend = await listen(http.createServer(async (req, res) => {
+    const body = await readBody(req);
+    calls.push({ path: req.url!, auth: req.headers.authorization });
+    res.setHeader('content-type', 'application/json');
+
+    if (req.url === '/api/tags') {
+      res.end(JSON.stringify({ models: [...installed].map(name => ({ name })) }));
+    } else if (req.url === '/api/pull') {
+      installed.add(body.name);
+      res.end(JSON.stringify({ status: 'success' }));
+    } else if (req.url === '/api/generate') {
+      res.end(JSON.stringify({ done: true }));
+    } else if (!installed.has(body.model)) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: `model "${body.model}" not found, try pulling it first` }));
+    } else {
+      res.end(JSON.stringify({
+        model: body.model,
+        message: { role: 'assistant', content: 'hello' },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 3,
+        eval_count: 1,
+      }));
+    }
+  }));
+  const router = await startRouter(backend.url, {
+    provider: 'ollama',
+    ollama: { ...DEFAULT_CONFIG.ollama, baseUrl: backend.url, model: 'qwen2.5:14b', modelRouting: {}, api: 'native', apiKey: 'secret' },
+  });
+
+  const send = () => fetch(`${router.url}/v1/messages`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ model: 'claude-sonnet-4', max_tokens: 16, messages: [{ role: 'user', content: 'hi' }] }),
+  });
+
+  try {
+    const response = await send();
+    assert.equal(response.status, 200);
+    const body = await response.json() as { content: { text: string }[] };
+    assert.equal(body.content[0].text, 'hello');
+
+    // qwen2.5:7b is installed, but that is not the 14b tag this route asks for
+    assert.deepEqual(calls.map(c => c.path), ['/api/chat', '/api/tags', '/api/pull', '/api/generate', '/api/chat']);
+    assert.ok(calls.every(c => c.auth === 'Bearer secret'));
+
+    // Once the model is there, requests go straight to the backend
+    calls.length = 0;
+    assert.equal((await send()).status, 200);
+    assert.deepEqual(calls.map(c => c.path), ['/api/chat']);
+  } finally {
+    await router.close();
+    await backend.close();
+  }
+});
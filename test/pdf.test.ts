@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { parsePdf } from '../src/pdf';
+import { renderDocument } from '../src/documents';
+import { AnthropicError } from '../src/errors';
+import { countRequestTokens } from '../src/tokens';
+
+const MAX_SIZE = 1024 * 1024;
+
+function readFixture(name: string): Buffer {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', 'pdf', name));
+}
+
+function pdfDocument(data: Buffer) {
+  return { type: 'document' as const, source: { type: 'base64' as const, media_type: 'application/pdf', data: data.toString('base64') } };
+}
+
+// A one-page PDF whose content stream inflates to size bytes of spaces
+function deflateBomb(size: number): Buffer {
+  const content = zlib.deflateSync(Buffer.alloc(size, ' '));
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n'
+      + '2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n'
+      + '3 0 obj\n<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>\nendobj\n'
+      + `4 0 obj\n<< /Filter /FlateDecode /Length ${content.length} >>\nstream\n`, 'latin1'),
+    content,
+    Buffer.from('\nendstream\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1'),
+  ]);
+}
+
+test('pages packed in object streams are found through a cross-reference stream', () => {
+  const pages = parsePdf(readFixture('object-streams.pdf'), { maxInflatedSize: MAX_SIZE });
+  assert.deepEqual(pages.map(page => page.text), [
+    'Quarterly revenue grew 12%\nOperating costs were flat',
+    'Outlook: cautious',
+  ]);
+});
+
+test('two-byte font codes are decoded with the ToUnicode CMap', () => {
+  const [page] = parsePdf(readFixture('tounicode-cmap.pdf'), { maxInflatedSize: MAX_SIZE });
+  assert.equal(page.text, 'Güße badge\n日本語');
+});
+
+test('an encrypted PDF yields no text and is described as unreadable', () => {
+  const data = readFixture('encrypted.pdf');
+  assert.deepEqual(parsePdf(data, { maxInflatedSize: MAX_SIZE }), []);
+
+  const rendered = renderDocument(pdfDocument(data), 1);
+  assert.equal(rendered.hasText, false);
+  assert.match(rendered.text, /could not be read: it is encrypted or damaged/);
+});
+
+test('a PDF that inflates past the size limit is rejected as an invalid request', () => {
+  const data = deflateBomb(2 * MAX_SIZE);
+  assert.ok(data.length < MAX_SIZE / 100);
+
+  assert.throws(
+    () => renderDocument(pdfDocument(data), 1, { maxSize: MAX_SIZE }),
+    (error: unknown) => error instanceof AnthropicError && error.type === 'invalid_request_error' && error.status === 400
+  );
+  assert.equal(renderDocument(pdfDocument(data), 1, { maxSize: 4 * MAX_SIZE }).hasText, false);
+});
+
+test('a PDF counted under one size limit is still checked against a smaller one', () => {
+  const block = pdfDocument(deflateBomb(3 * MAX_SIZE));
+  const request = { model: 'm', messages: [{ role: 'user' as const, content: [block] }] };
+
+  // Token counting runs before conversion and caches the parsed PDF
+  assert.ok(countRequestTokens(request, 'm', 8 * MAX_SIZE) > 0);
+  assert.throws(
+    () => renderDocument(block, 1, { maxSize: MAX_SIZE }),
+    (error: unknown) => error instanceof AnthropicError && error.type === 'invalid_request_error'
+  );
+  assert.throws(
+    () => countRequestTokens(request, 'm', MAX_SIZE),
+    (error: unknown) => error instanceof AnthropicError && error.type === 'invalid_request_error'
+  );
+});
+
+test('token counting honours a size limit above the default', () => {
+  const block = pdfDocument(deflateBomb(40 * MAX_SIZE));
+  const request = { model: 'm', messages: [{ role: 'user' as const, content: [block] }] };
+  assert.ok(countRequestTokens(request, 'm', 64 * MAX_SIZE) > 0);
+});
@@ -0,0 +1,129 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { PromptCache } from '../src/prompt-cache';
+import { ClaudeRequest, ResolvedRoute } from '../src/types';
+import { listen, startRouter } from './helpers';
+
+const ROUTE: ResolvedRoute = { provider: 'stub', model: 'default-model' };
+const FIVE_MINUTES = 5 * 60 * 1000;
+
+function cachedRequest(ttl?: '5m' | '1h', instructions = 'You are a careful assistant. '): ClaudeRequest {
+  return {
+    model: 'claude-sonnet-4',
+    max_tokens: 16,
+    system: [{
+      type: 'text',
+      text: instructions.repeat(200),
+      cache_control: { type: 'ephemeral', ...(ttl && { ttl }) },
+    }],
+    messages: [{ role: 'user', content: 'hi' }],
+  };
+}
+
+// Usage for a backend that counted the whole prompt as 1000 input tokens
+function usageFor(cache: PromptCache, request: ClaudeRequest, cachedTokens?: number) {
+  const session = cache.begin(ROUTE, request)!;
+  const usage = session.applyUsage({ input_tokens: 1000, output_tokens: 1 }, cachedTokens);
+  return { session, usage };
+}
+
+test('a new cached prefix is written, then read by the next request', () => {
+  const cache = new PromptCache();
+
+  const first = usageFor(cache, cachedRequest());
+  assert.equal(first.usage.cache_read_input_tokens, 0);
+  assert.ok(first.usage.cache_creation_input_tokens! > 900);
+  assert.equal(first.usage.input_tokens + first.usage.cache_creation_input_tokens!, 1000);
+  first.session.commit();
+
+  const second = usageFor(cache, cachedRequest());
+  assert.equal(second.usage.cache_creation_input_tokens, 0);
+  assert.equal(second.usage.cache_read_input_tokens, first.usage.cache_creation_input_tokens);
+});
+
+test('a prefix is only cached once its request succeeds', () => {
+  const cache = new PromptCache();
+
+  // A failed attempt never commits, so the retry still writes the cache
+  usageFor(cache, cachedRequest());
+  const retry = usageFor(cache, cachedRequest());
+  assert.equal(retry.usage.cache_read_input_tokens, 0);
+  assert.ok(retry.usage.cache_creation_input_tokens! > 0);
+});
+
+test('cached prefixes expire after their TTL', t => {
+  let now = Date.now();
+  mock.method(Date, 'now', () => now);
+  t.after(() => mock.restoreAll());
+
+  const cache = new PromptCache();
+  const hourLong = cachedRequest('1h', 'You keep answers short. ');
+  usageFor(cache, cachedRequest()).session.commit();
+  usageFor(cache, hourLong).session.commit();
+
+  now += FIVE_MINUTES + 1;
+  assert.equal(usageFor(cache, cachedRequest()).usage.cache_read_input_tokens, 0);
+  assert.ok(usageFor(cache, hourLong).usage.cache_read_input_tokens! > 0);
+});
+
+test("the backend's own count of reused tokens wins over the estimate", () => {
+  const cache = new PromptCache();
+  const { usage } = usageFor(cache, cachedRequest(), 300);
+  assert.equal(usage.cache_read_input_tokens, 300);
+  assert.equal(usage.input_tokens + usage.cache_creation_input_tokens! + usage.cache_read_input_tokens!, 1000);
+});
+
+test('cached_tokens and timings.cache_n from the backend are reported as cache reads', { timeout: 15000 }, async () => {
+  const backend = await listen(http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const { stream } = JSON.parse(body) as { stream?: boolean };
+      if (!stream) {
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({
+          id: 'chatcmpl-stub',
+          object: 'chat.completion',
+          created: 0,
+          model: 'default-model',
+          choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 1000, completion_tokens: 1, total_tokens: 1001, prompt_tokens_details: { cached_tokens: 250 } },
+        }));
+        return;
+      }
+      // llama.cpp reports the reused prompt tokens in its timings
+      res.setHeader('content-type', 'text/event-stream');
+      const chunks = [
+        { choices: [{ index: 0, delta: { content: 'ok' }, finish_reason: null }] },
+        { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage: { prompt_tokens: 1000, completion_tokens: 1 }, timings: { cache_n: 400 } },
+      ];
+      for (const chunk of chunks) {
+        res.write(`data: ${JSON.stringify({ id: 'c', object: 'chat.completion.chunk', created: 0, model: 'default-model', ...chunk })}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+    });
+  }));
+  const router = await startRouter(backend.url);
+
+  const send = (stream: boolean) => fetch(`${router.url}/v1/messages`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ ...cachedRequest(), stream }),
+  });
+
+  try {
+    const message = await (await send(false)).json() as { usage: Record<string, number> };
+    assert.equal(message.usage.cache_read_input_tokens, 250);
+
+    const events = (await (await send(true)).text()).split('\n\n')
+      .map(event => event.match(/^data: (.*)$/m)?.[1])
+      .filter((data): data is string => Boolean(data))
+      .map(data => JSON.parse(data) as { type: string; usage?: Record<string, number> });
+    const delta = events.find(event => event.type === 'message_delta')!;
+    assert.equal(delta.usage!.cache_read_input_tokens, 400);
+  } finally {
+    await router.close();
+    await backend.close();
+  }
+});
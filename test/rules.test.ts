@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileRulePatterns, matchesPattern } from '../src/rules';
+
+test('a regex pattern with the g flag matches the same model on every request', () => {
+  for (let i = 0; i < 3; i++) {
+    assert.equal(matchesPattern('/^claude-.*haiku/gi', 'claude-3-5-HAIKU'), true);
+  }
+});
+
+test('an invalid regex pattern is rejected when the rules are compiled', () => {
+  assert.throws(
+    () => compileRulePatterns([{ match: '/claude-(/', target: 'ollama/llama3' }]),
+    /Invalid route rule pattern \/claude-\(\//
+  );
+});
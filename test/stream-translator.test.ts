@@ -0,0 +1,169 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StreamTranslator, parseNDJSONStream, parseSSEStream } from '../src/providers/stream-translator';
+import { MessageStreamEvent } from '../src/message-stream';
+import { ClaudeUsage, OllamaChatResponse } from '../src/types';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'streams');
+
+interface RecordedEvent {
+  event: string;
+  data: MessageStreamEvent;
+}
+
+interface AssembledBlock {
+  type: string;
+  id?: string;
+  name?: string;
+  // Text, thinking or tool input JSON, concatenated from the deltas
+  content: string;
+  signed?: boolean;
+}
+
+function readFixture(name: string): Buffer {
+  return fs.readFileSync(path.join(FIXTURES, name));
+}
+
+// Replay a recorded body in small pieces, so lines, JSON and multi-byte
+// characters are split across reads the way a socket can split them
+async function* replay(data: Buffer, size = 7): AsyncGenerator<Buffer> {
+  for (let i = 0; i < data.length; i += size) {
+    yield data.subarray(i, i + size);
+  }
+}
+
+async function translate(data: Buffer): Promise<RecordedEvent[]> {
+  const events: RecordedEvent[] = [];
+  const translator = new StreamTranslator(
+    (event, payload) => events.push({ event, data: payload as MessageStreamEvent }),
+    { messageId: 'msg_test', model: 'claude-sonnet-4', inputTokens: 10 }
+  );
+  translator.start();
+  for await (const chunk of parseSSEStream(replay(data))) {
+    translator.push(chunk);
+  }
+  translator.finish();
+  return events;
+}
+
+// Rebuild the message a client would assemble, checking that blocks are
+// opened and closed in order along the way
+function assemble(events: RecordedEvent[]): { blocks: AssembledBlock[]; stopReason?: string | null; usage?: Partial<ClaudeUsage> } {
+  assert.equal(events[0].event, 'message_start');
+  assert.equal(events[events.length - 1].event, 'message_stop');
+
+  const blocks: AssembledBlock[] = [];
+  let open: number | undefined;
+  let stopReason: string | null | undefined;
+  let usage: Partial<ClaudeUsage> | undefined;
+
+  for (const { event, data } of events.slice(1, -1)) {
+    switch (event) {
+      case 'content_block_start':
+        assert.equal(open, undefined, 'a block started before the previous one stopped');
+        assert.equal(data.index, blocks.length);
+        blocks.push({ type: data.content_block!.type, id: data.content_block!.id, name: data.content_block!.name, content: '' });
+        open = data.index;
+        break;
+      case 'content_block_delta': {
+        assert.equal(data.index, open);
+        const block = blocks[open!];
+        const delta = data.delta!;
+        if (delta.type === 'signature_delta') {
+          block.signed = true;
+        } else {
+          block.content += delta.text ?? delta.thinking ?? delta.partial_json ?? '';
+        }
+        break;
+      }
+      case 'content_block_stop':
+        assert.equal(data.index, open);
+        open = undefined;
+        break;
+      case 'message_delta':
+        stopReason = data.delta?.stop_reason;
+        usage = data.usage;
+        break;
+      default:
+        assert.fail(`unexpected ${event} event`);
+    }
+  }
+  assert.equal(open, undefined, 'a block was left open');
+  return { blocks, stopReason, usage };
+}
+
+test('LM Studio: reasoning_content, text and a tool call with split arguments', async () => {
+  const { blocks, stopReason, usage } = assemble(await translate(readFixture('lmstudio-tool-call.sse')));
+
+  assert.deepEqual(blocks.map(b => b.type), ['thinking', 'text', 'tool_use']);
+  assert.equal(blocks[0].content, 'The user wants the file read.');
+  assert.ok(blocks[0].signed, 'thinking blocks are signed');
+  assert.equal(blocks[1].content, 'Reading it now.');
+  assert.equal(blocks[2].id, 'call_lm1');
+  assert.equal(blocks[2].name, 'Read');
+  assert.deepEqual(JSON.parse(blocks[2].content), { file_path: 'src/index.ts' });
+  assert.equal(stopReason, 'tool_use');
+  assert.deepEqual(usage, { input_tokens: 812, output_tokens: 41 });
+});
+
+test('Ollama OpenAI shim: <think> tags spanning chunks and a tool call with finish_reason stop', async () => {
+  const { blocks, stopReason, usage } = assemble(await translate(readFixture('ollama-openai-think.sse')));
+
+  assert.deepEqual(blocks.map(b => b.type), ['thinking', 'text', 'tool_use']);
+  assert.equal(blocks[0].content, '\nCheck the tests first.\n');
+  assert.equal(blocks[1].content, 'Running the tests.');
+  assert.equal(blocks[2].name, 'Bash');
+  assert.deepEqual(JSON.parse(blocks[2].content), { command: 'npm test' });
+  assert.equal(stopReason, 'tool_use');
+  assert.deepEqual(usage, { input_tokens: 1024, output_tokens: 37 });
+});
+
+test('llama.cpp: reasoning, multi-byte text split across reads, and a length stop', async () => {
+  const { blocks, stopReason, usage } = assemble(await translate(readFixture('llamacpp-reasoning.sse')));
+
+  assert.deepEqual(blocks.map(b => [b.type, b.content]), [
+    ['thinking', 'Greet in Japanese.'],
+    ['text', 'こんにちは、世界 🌏'],
+  ]);
+  assert.equal(stopReason, 'max_tokens');
+  assert.deepEqual(usage, { input_tokens: 128, output_tokens: 16 });
+});
+
+test('an upstream error chunk ends the stream with an error event', async () => {
+  const events = await translate(readFixture('llamacpp-error.sse'));
+  const last = events[events.length - 1];
+
+  assert.equal(last.event, 'error');
+  assert.equal(last.data.error?.type, 'api_error');
+  assert.equal(last.data.error?.message, 'the request exceeds the available context size');
+  assert.ok(!events.some(e => e.event === 'message_stop'), 'no message_stop after an error');
+});
+
+test('parseSSEStream skips [DONE] and reads CRLF line endings', async () => {
+  const data = readFixture('lmstudio-tool-call.sse');
+  const crlf = Buffer.from(data.toString('utf-8').replace(/\n/g, '\r\n'));
+
+  const chunks = [];
+  for await (const chunk of parseSSEStream(replay(data, 5))) chunks.push(chunk);
+  const crlfChunks = [];
+  for await (const chunk of parseSSEStream(replay(crlf, 5))) crlfChunks.push(chunk);
+
+  assert.equal(chunks.length, 10);
+  assert.deepEqual(crlfChunks, chunks);
+});
+
+test('parseNDJSONStream reads native Ollama /api/chat lines split across reads', async () => {
+  const lines: OllamaChatResponse[] = [];
+  for await (const line of parseNDJSONStream<OllamaChatResponse>(replay(readFixture('ollama-native.ndjson'), 5))) {
+    lines.push(line);
+  }
+
+  assert.equal(lines.length, 4);
+  assert.equal(lines[0].message?.thinking, 'Short answer.');
+  assert.equal(lines.map(l => l.message?.content).join(''), 'Hello there ✓');
+  assert.equal(lines[3].done, true);
+  assert.equal(lines[3].prompt_eval_count, 64);
+  assert.equal(lines[3].eval_count, 5);
+});
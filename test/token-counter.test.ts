@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TokenCounter } from '../src/token-counter';
+import { OpenAICompatibleProvider } from '../src/providers';
+import { createRequestContext } from '../src/dispatch';
+import { DEFAULT_CONFIG } from '../src/config';
+import { ClaudeMessage, RequestContext } from '../src/types';
+
+// A backend tokenizer that records how many calls overlap
+class SlowTokenizer extends OpenAICompatibleProvider {
+  calls = 0;
+  inFlight = 0;
+  peak = 0;
+
+  async tokenize(text: string, _ctx: RequestContext): Promise<number> {
+    this.calls++;
+    this.inFlight++;
+    this.peak = Math.max(this.peak, this.inFlight);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    this.inFlight--;
+    return text.length;
+  }
+}
+
+test('backend tokenize calls for one request are bounded and cached', async () => {
+  const backend = { name: 'stub', baseUrl: 'http://127.0.0.1:1/v1', model: 'm' };
+  const provider = new SlowTokenizer(backend);
+  const counter = new TokenCounter(new Map([['stub', provider]]));
+  const route = { provider: 'stub', model: 'm' };
+  const ctx = createRequestContext({ ...DEFAULT_CONFIG, openaiCompatible: [backend] }, route);
+
+  const messages: ClaudeMessage[] = Array.from({ length: 40 }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `message number ${i}`,
+  }));
+  const first = await counter.countRequest({ model: 'claude-sonnet-4', messages }, route, ctx);
+
+  assert.equal(provider.calls, 40);
+  assert.ok(provider.peak <= 4, `at most 4 tokenize calls at once, saw ${provider.peak}`);
+  assert.ok(first.exact);
+
+  const second = await counter.countRequest({ model: 'claude-sonnet-4', messages }, route, ctx);
+  assert.equal(provider.calls, 40, 'cached messages are not tokenized again');
+  assert.equal(second.tokens, first.tokens);
+});
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateMessagesRequest, validateTokenCountRequest } from '../src/validation';
+import { AnthropicError } from '../src/errors';
+
+function rejectsWith(message: string) {
+  return (error: unknown) => error instanceof AnthropicError && error.type === 'invalid_request_error' && error.message === message;
+}
+
+const toolTurns = [
+  { role: 'user', content: 'What is the weather?' },
+  { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'weather', input: {} }] },
+];
+
+test('turn order and tool pairing are enforced in lenient mode too', () => {
+  for (const mode of ['lenient', 'strict'] as const) {
+    assert.throws(
+      () => validateMessagesRequest({ model: 'm', max_tokens: 16, messages: [...toolTurns, { role: 'user', content: 'Sunny?' }] }, mode),
+      rejectsWith('messages.2.content: tool_use block "toolu_1" in the previous message has no tool_result')
+    );
+    assert.throws(
+      () => validateTokenCountRequest({ model: 'm', messages: [{ role: 'assistant', content: 'Hi' }] }, mode),
+      rejectsWith('messages.0.role: the first message must use the "user" role')
+    );
+  }
+});
+
+test('only strict mode rejects fields it does not know', () => {
+  const body = {
+    model: 'm',
+    max_tokens: 16,
+    service_tier: 'auto',
+    messages: [...toolTurns, { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'Sunny' }] }],
+  };
+
+  assert.equal(validateMessagesRequest(body, 'lenient'), body);
+  assert.throws(() => validateMessagesRequest(body, 'strict'), rejectsWith('service_tier: extra inputs are not permitted'));
+});